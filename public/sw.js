@@ -0,0 +1,84 @@
+/**
+ * Service worker - caches the app shell so the UI opens without the server
+ *
+ * - Navigations: network first, cached index.html when offline (SPA routes)
+ * - Built assets (/assets/*, hashed): cache first
+ * - Proxied images: cache first so covers show offline, oldest dropped past MAX_IMAGES
+ * - Other API calls are left to the app (IndexedDB offline cache)
+ */
+
+const CACHE_VERSION = 'v2';
+const SHELL_CACHE = `lightyomi-shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `lightyomi-runtime-${CACHE_VERSION}`;
+const IMAGE_CACHE = `lightyomi-images-${CACHE_VERSION}`;
+const MAX_IMAGES = 300;
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/vite.svg'];
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE)
+            .then((cache) => cache.addAll(SHELL_URLS))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(
+                keys
+                    .filter((key) => key.startsWith('lightyomi-') && ![SHELL_CACHE, RUNTIME_CACHE, IMAGE_CACHE].includes(key))
+                    .map((key) => caches.delete(key))
+            ))
+            .then(() => self.clients.claim())
+    );
+});
+
+// Cache keys are kept in insertion order, so the first ones are the oldest
+const trimCache = async (cacheName, maxEntries) => {
+    const cache = await caches.open(cacheName);
+    const keys = await cache.keys();
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+const cacheFirst = async (request, cacheName = RUNTIME_CACHE, maxEntries) => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    if (response.ok) {
+        const cache = await caches.open(cacheName);
+        await cache.put(request, response.clone());
+        if (maxEntries) trimCache(cacheName, maxEntries);
+    }
+    return response;
+};
+
+const networkFirstShell = async (request) => {
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            const cache = await caches.open(SHELL_CACHE);
+            cache.put('/index.html', response.clone());
+        }
+        return response;
+    } catch {
+        return (await caches.match('/index.html')) || Response.error();
+    }
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+    if (url.origin !== self.location.origin) return;
+
+    if (request.mode === 'navigate') {
+        event.respondWith(networkFirstShell(request));
+    } else if (url.pathname.startsWith('/assets/') || SHELL_URLS.includes(url.pathname)) {
+        event.respondWith(cacheFirst(request));
+    } else if (url.pathname === '/api/image-proxy') {
+        event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_IMAGES));
+    }
+});
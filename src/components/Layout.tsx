@@ -11,6 +11,11 @@ import QueueIcon from '@mui/icons-material/Queue';
 import EqualizerIcon from '@mui/icons-material/Equalizer';
 import { Outlet, useNavigate, useLocation } from 'react-router-dom';
 import { useToolbar } from '../contexts/ToolbarContext';
+import OfflineIndicator from './OfflineIndicator';
+import ShortcutsDialog from './dialogs/ShortcutsDialog';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { syncDownloadedChapters } from '../utils/offlineCache';
+import { processSyncQueue } from '../utils/trackerSync';
 
 const drawerWidth = 240;
 
@@ -19,6 +24,34 @@ export default function Layout() {
     const navigate = useNavigate();
     const location = useLocation();
     const { toolbarContent, pageTitle, backPath } = useToolbar();
+    const [shortcutsOpen, setShortcutsOpen] = React.useState(false);
+
+    useKeyboardShortcuts('global', {
+        goLibrary: () => navigate('/'),
+        goUpdates: () => navigate('/updates'),
+        goBrowse: () => navigate('/browse'),
+        showShortcuts: () => setShortcutsOpen(true),
+    });
+
+    // Keep downloaded chapters available offline
+    React.useEffect(() => {
+        syncDownloadedChapters();
+        const handleOnline = () => syncDownloadedChapters(true);
+        window.addEventListener('online', handleOnline);
+        return () => window.removeEventListener('online', handleOnline);
+    }, []);
+
+    // Retry queued tracker updates
+    React.useEffect(() => {
+        processSyncQueue();
+        const handleOnline = () => processSyncQueue(true);
+        const timer = setInterval(() => processSyncQueue(), 60 * 1000);
+        window.addEventListener('online', handleOnline);
+        return () => {
+            clearInterval(timer);
+            window.removeEventListener('online', handleOnline);
+        };
+    }, []);
 
     const handleDrawerToggle = () => {
         setMobileOpen(!mobileOpen);
@@ -157,6 +190,8 @@ export default function Layout() {
                     <Outlet />
                 </Box>
             </Box>
+            <OfflineIndicator />
+            <ShortcutsDialog open={shortcutsOpen} onClose={() => setShortcutsOpen(false)} />
         </Box>
     );
 }
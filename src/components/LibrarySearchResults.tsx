@@ -0,0 +1,93 @@
+import { Box, Paper, Typography, Chip, List, ListItemButton, ListItemText } from '@mui/material';
+import { useNavigate } from 'react-router-dom';
+import type { LibrarySearchResult, SearchField } from '../utils/librarySearch';
+import type { SearchSnippet } from '../utils/chapterSearch';
+import { getCoverUrl } from '../utils/imageProxy';
+
+interface LibrarySearchResultsProps {
+    query: string;
+    results: LibrarySearchResult[];
+}
+
+const fieldLabels: Record<SearchField, string> = {
+    name: 'Title',
+    author: 'Author',
+    genres: 'Genres',
+    summary: 'Summary',
+};
+
+const renderSnippet = (snippet: SearchSnippet) => (
+    <>
+        {snippet.before}
+        <Box component="mark" sx={{ bgcolor: 'warning.main', color: 'inherit', borderRadius: 0.5 }}>
+            {snippet.text}
+        </Box>
+        {snippet.after}
+    </>
+);
+
+/**
+ * Full-text library search results, grouped by novel in ranking order.
+ */
+export default function LibrarySearchResults({ query, results }: LibrarySearchResultsProps) {
+    const navigate = useNavigate();
+
+    return (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {results.map((result) => (
+                <Paper key={result.novelId} sx={{ p: 2 }}>
+                    <Box
+                        sx={{ display: 'flex', gap: 2, cursor: 'pointer' }}
+                        onClick={() => navigate(`/novel/${result.novelId}`)}
+                    >
+                        <Box
+                            component="img"
+                            src={getCoverUrl(result.cover)}
+                            sx={{ width: 50, height: 70, objectFit: 'cover', borderRadius: 1, flexShrink: 0 }}
+                        />
+                        <Box sx={{ minWidth: 0 }}>
+                            <Typography variant="subtitle1" noWrap>{result.name}</Typography>
+                            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
+                                {(Object.keys(result.fields) as SearchField[]).map((field) => (
+                                    <Chip
+                                        key={field}
+                                        size="small"
+                                        variant="outlined"
+                                        label={`${fieldLabels[field]} · ${result.fields[field]}`}
+                                    />
+                                ))}
+                                {result.chapterHits > 0 && (
+                                    <Chip
+                                        size="small"
+                                        color="primary"
+                                        label={`Chapter text · ${result.chapterHits}`}
+                                    />
+                                )}
+                            </Box>
+                        </Box>
+                    </Box>
+
+                    {result.chapters.length > 0 && (
+                        <List dense disablePadding sx={{ mt: 1 }}>
+                            {result.chapters.map((chapter) => chapter.snippets.map((snippet) => (
+                                <ListItemButton
+                                    key={`${chapter.chapterId}-${snippet.match}`}
+                                    onClick={() => navigate(
+                                        `/novel/${result.novelId}/chapter/${chapter.chapterId}?search=${encodeURIComponent(query)}&match=${snippet.match}`
+                                    )}
+                                    sx={{ borderRadius: 1 }}
+                                >
+                                    <ListItemText
+                                        primary={renderSnippet(snippet)}
+                                        secondary={`${chapter.chapterName} · ${chapter.count} match(es)`}
+                                        slotProps={{ primary: { variant: 'body2' } }}
+                                    />
+                                </ListItemButton>
+                            )))}
+                        </List>
+                    )}
+                </Paper>
+            ))}
+        </Box>
+    );
+}
@@ -14,9 +14,11 @@ export interface Novel {
 
 interface NovelCardProps {
     novel: Novel;
+    // compact: smaller title, cover: no title (shown as tooltip)
+    variant?: 'default' | 'compact' | 'cover';
 }
 
-export default function NovelCard({ novel }: NovelCardProps) {
+export default function NovelCard({ novel, variant = 'default' }: NovelCardProps) {
     const navigate = useNavigate();
 
     const handleClick = () => {
@@ -40,7 +42,7 @@ export default function NovelCard({ novel }: NovelCardProps) {
 
 
     return (
-        <Card sx={{ maxWidth: 345, position: 'relative' }}>
+        <Card sx={{ maxWidth: 345, position: 'relative' }} title={variant === 'cover' ? novel.name : undefined}>
             <CardActionArea onClick={handleClick}>
                 <Box sx={{ position: 'relative', pt: '150%' }}>
                     <CardMedia
@@ -92,29 +94,31 @@ export default function NovelCard({ novel }: NovelCardProps) {
                             DL
                         </Box>
                     )}
-                    <Box
-                        sx={{
-                            position: 'absolute',
-                            bottom: 0,
-                            left: 0,
-                            width: '100%',
-                            background: 'linear-gradient(to top, rgba(0,0,0,0.8) 0%, rgba(0,0,0,0) 100%)',
-                            color: 'white',
-                            p: 1,
-                            pt: 4,
-                        }}
-                    >
-                        <Typography variant="subtitle2" sx={{
-                            display: '-webkit-box',
-                            WebkitLineClamp: 2,
-                            WebkitBoxOrient: 'vertical',
-                            overflow: 'hidden',
-                            lineHeight: 1.2,
-                            textShadow: '0 1px 2px rgba(0,0,0,0.8)',
-                        }}>
-                            {novel.name}
-                        </Typography>
-                    </Box>
+                    {variant !== 'cover' && (
+                        <Box
+                            sx={{
+                                position: 'absolute',
+                                bottom: 0,
+                                left: 0,
+                                width: '100%',
+                                background: 'linear-gradient(to top, rgba(0,0,0,0.8) 0%, rgba(0,0,0,0) 100%)',
+                                color: 'white',
+                                p: variant === 'compact' ? 0.5 : 1,
+                                pt: variant === 'compact' ? 3 : 4,
+                            }}
+                        >
+                            <Typography variant={variant === 'compact' ? 'caption' : 'subtitle2'} sx={{
+                                display: '-webkit-box',
+                                WebkitLineClamp: 2,
+                                WebkitBoxOrient: 'vertical',
+                                overflow: 'hidden',
+                                lineHeight: 1.2,
+                                textShadow: '0 1px 2px rgba(0,0,0,0.8)',
+                            }}>
+                                {novel.name}
+                            </Typography>
+                        </Box>
+                    )}
                 </Box>
             </CardActionArea>
         </Card>
@@ -0,0 +1,30 @@
+/**
+ * Offline Indicator - shown while the UI is running from the offline cache
+ */
+
+import { Chip, Tooltip } from '@mui/material';
+import CloudOffIcon from '@mui/icons-material/CloudOff';
+import { useOfflineStatus } from '../hooks/useOfflineStatus';
+
+export default function OfflineIndicator() {
+    const offline = useOfflineStatus();
+
+    if (!offline) return null;
+
+    return (
+        <Tooltip title="The server can't be reached. Library, novels and downloaded chapters are served from this device.">
+            <Chip
+                icon={<CloudOffIcon />}
+                label="Offline"
+                color="warning"
+                sx={{
+                    position: 'fixed',
+                    bottom: 16,
+                    left: 16,
+                    zIndex: (theme) => theme.zIndex.snackbar,
+                    boxShadow: 3,
+                }}
+            />
+        </Tooltip>
+    );
+}
@@ -0,0 +1,27 @@
+import { Avatar } from '@mui/material';
+import type { SxProps, Theme } from '@mui/material';
+import type { TrackerInfo } from '../utils/trackers';
+
+interface TrackerAvatarProps {
+    tracker: TrackerInfo;
+    size?: number;
+    sx?: SxProps<Theme>;
+}
+
+/**
+ * Tracker logo, or its initials on the tracker's colour when there is no logo.
+ */
+export default function TrackerAvatar({ tracker, size = 48, sx }: TrackerAvatarProps) {
+    return (
+        <Avatar
+            src={tracker.logo}
+            alt={tracker.name}
+            sx={[
+                { width: size, height: size, bgcolor: tracker.color, color: '#fff', fontSize: size * 0.35 },
+                ...(Array.isArray(sx) ? sx : [sx]),
+            ]}
+        >
+            {tracker.initials}
+        </Avatar>
+    );
+}
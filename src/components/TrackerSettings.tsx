@@ -1,11 +1,13 @@
 /**
- * Tracker Settings - MAL and AniList Integration
+ * Tracker Settings - connect the registered trackers
  * 
  * Features:
- * - OAuth connection for MyAnimeList and AniList
+ * - One card per registered tracker (see trackerRegistry)
+ * - OAuth popup, username/password or token sign-in, per tracker
  * - Connection status display
  * - Disconnect functionality
  * - Status persistence via backend
+ * - Progress sync log and update rules
  */
 
 import { useState, useEffect } from 'react';
@@ -16,7 +18,6 @@ import {
     CardContent,
     CardActions,
     Typography,
-    Avatar,
     Stack,
     Chip,
     CircularProgress,
@@ -25,25 +26,17 @@ import {
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import LinkOffIcon from '@mui/icons-material/LinkOff';
 import axios from 'axios';
-
-interface TrackerStatus {
-    mal: {
-        connected: boolean;
-        username?: string;
-    };
-    anilist: {
-        connected: boolean;
-        username?: string;
-    };
-}
+import { TRACKER_API, getTrackerStatus, trackerRegistry } from '../utils/trackers';
+import type { TrackerInfo, TrackerStatusMap } from '../utils/trackers';
+import TrackerSyncLog from './settings/TrackerSyncLog';
+import TrackerAvatar from './TrackerAvatar';
+import TrackerLoginDialog from './dialogs/TrackerLoginDialog';
 
 export default function TrackerSettings() {
-    const [status, setStatus] = useState<TrackerStatus>({
-        mal: { connected: false },
-        anilist: { connected: false },
-    });
+    const [status, setStatus] = useState<TrackerStatusMap>({});
     const [loading, setLoading] = useState(true);
     const [connecting, setConnecting] = useState<string | null>(null);
+    const [loginTracker, setLoginTracker] = useState<TrackerInfo | null>(null);
 
     useEffect(() => {
         fetchStatus();
@@ -60,11 +53,7 @@ export default function TrackerSettings() {
 
     const fetchStatus = async () => {
         try {
-            const res = await axios.get('/api/tracker/status');
-            setStatus(res.data || {
-                mal: { connected: false },
-                anilist: { connected: false },
-            });
+            setStatus(await getTrackerStatus());
         } catch (e) {
             console.error('Failed to fetch tracker status:', e);
         } finally {
@@ -72,10 +61,14 @@ export default function TrackerSettings() {
         }
     };
 
-    const handleConnect = async (tracker: string) => {
-        setConnecting(tracker);
+    const handleConnect = async (tracker: TrackerInfo) => {
+        if (tracker.auth !== 'oauth') {
+            setLoginTracker(tracker);
+            return;
+        }
+        setConnecting(tracker.id);
         try {
-            const res = await axios.get(`/api/tracker/${tracker}/auth-url`);
+            const res = await axios.get(`${TRACKER_API}/${tracker.id}/auth-url`);
             const { url } = res.data;
             if (url) {
                 // Open OAuth popup
@@ -100,10 +93,10 @@ export default function TrackerSettings() {
         }
     };
 
-    const handleDisconnect = async (tracker: string) => {
-        if (!confirm(`Disconnect from ${tracker}?`)) return;
+    const handleDisconnect = async (tracker: TrackerInfo) => {
+        if (!confirm(`Disconnect from ${tracker.name}?`)) return;
         try {
-            await axios.post(`/api/tracker/${tracker}/disconnect`);
+            await axios.post(`${TRACKER_API}/${tracker.id}/disconnect`);
             fetchStatus();
         } catch (e) {
             console.error(e);
@@ -128,119 +121,76 @@ export default function TrackerSettings() {
                 Connect your tracking accounts to sync reading progress automatically.
             </Typography>
 
-            <Alert severity="info" sx={{ mb: 3 }}>
-                OAuth integration requires configuring API credentials on the server.
-                Contact your administrator if connection fails.
-            </Alert>
+            {trackerRegistry.some((t) => t.auth === 'oauth') && (
+                <Alert severity="info" sx={{ mb: 3 }}>
+                    OAuth integration requires configuring API credentials on the server.
+                    Contact your administrator if connection fails.
+                </Alert>
+            )}
 
             <Stack spacing={2}>
-                {/* MyAnimeList */}
-                <Card variant="outlined">
-                    <CardContent>
-                        <Stack direction="row" alignItems="center" spacing={2}>
-                            <Avatar
-                                src="https://upload.wikimedia.org/wikipedia/commons/7/7a/MyAnimeList_Logo.png"
-                                sx={{ width: 48, height: 48 }}
-                            />
-                            <Box sx={{ flexGrow: 1 }}>
-                                <Typography variant="h6">MyAnimeList</Typography>
-                                <Typography variant="body2" color="text.secondary">
-                                    {status.mal.connected && status.mal.username
-                                        ? `Connected as ${status.mal.username}`
-                                        : 'Not connected'}
-                                </Typography>
-                            </Box>
-                            {status.mal.connected && (
-                                <Chip
-                                    icon={<CheckCircleIcon />}
-                                    label="Connected"
-                                    color="success"
-                                    size="small"
-                                />
-                            )}
-                        </Stack>
-                    </CardContent>
-                    <CardActions>
-                        {status.mal.connected ? (
-                            <Button
-                                size="small"
-                                color="error"
-                                startIcon={<LinkOffIcon />}
-                                onClick={() => handleDisconnect('MyAnimeList')}
-                            >
-                                Disconnect
-                            </Button>
-                        ) : (
-                            <Button
-                                size="small"
-                                variant="contained"
-                                onClick={() => handleConnect('MyAnimeList')}
-                                disabled={connecting === 'MyAnimeList'}
-                            >
-                                {connecting === 'MyAnimeList' ? (
-                                    <CircularProgress size={20} />
+                {trackerRegistry.map((tracker) => {
+                    const connection = status[tracker.statusKey];
+                    return (
+                        <Card key={tracker.id} variant="outlined">
+                            <CardContent>
+                                <Stack direction="row" alignItems="center" spacing={2}>
+                                    <TrackerAvatar tracker={tracker} />
+                                    <Box sx={{ flexGrow: 1 }}>
+                                        <Typography variant="h6">{tracker.name}</Typography>
+                                        <Typography variant="body2" color="text.secondary">
+                                            {connection?.connected && connection.username
+                                                ? `Connected as ${connection.username}`
+                                                : 'Not connected'}
+                                        </Typography>
+                                    </Box>
+                                    {connection?.connected && (
+                                        <Chip
+                                            icon={<CheckCircleIcon />}
+                                            label="Connected"
+                                            color="success"
+                                            size="small"
+                                        />
+                                    )}
+                                </Stack>
+                            </CardContent>
+                            <CardActions>
+                                {connection?.connected ? (
+                                    <Button
+                                        size="small"
+                                        color="error"
+                                        startIcon={<LinkOffIcon />}
+                                        onClick={() => handleDisconnect(tracker)}
+                                    >
+                                        Disconnect
+                                    </Button>
                                 ) : (
-                                    'Connect'
+                                    <Button
+                                        size="small"
+                                        variant="contained"
+                                        onClick={() => handleConnect(tracker)}
+                                        disabled={connecting === tracker.id}
+                                    >
+                                        {connecting === tracker.id ? (
+                                            <CircularProgress size={20} />
+                                        ) : (
+                                            tracker.auth === 'oauth' ? 'Connect' : 'Sign In'
+                                        )}
+                                    </Button>
                                 )}
-                            </Button>
-                        )}
-                    </CardActions>
-                </Card>
-
-                {/* AniList */}
-                <Card variant="outlined">
-                    <CardContent>
-                        <Stack direction="row" alignItems="center" spacing={2}>
-                            <Avatar
-                                sx={{ width: 48, height: 48, bgcolor: '#02A9FF' }}
-                            >
-                                AL
-                            </Avatar>
-                            <Box sx={{ flexGrow: 1 }}>
-                                <Typography variant="h6">AniList</Typography>
-                                <Typography variant="body2" color="text.secondary">
-                                    {status.anilist.connected && status.anilist.username
-                                        ? `Connected as ${status.anilist.username}`
-                                        : 'Not connected'}
-                                </Typography>
-                            </Box>
-                            {status.anilist.connected && (
-                                <Chip
-                                    icon={<CheckCircleIcon />}
-                                    label="Connected"
-                                    color="success"
-                                    size="small"
-                                />
-                            )}
-                        </Stack>
-                    </CardContent>
-                    <CardActions>
-                        {status.anilist.connected ? (
-                            <Button
-                                size="small"
-                                color="error"
-                                startIcon={<LinkOffIcon />}
-                                onClick={() => handleDisconnect('AniList')}
-                            >
-                                Disconnect
-                            </Button>
-                        ) : (
-                            <Button
-                                size="small"
-                                variant="contained"
-                                onClick={() => handleConnect('AniList')}
-                                disabled={connecting === 'AniList'}
-                            >
-                                {connecting === 'AniList' ? (
-                                    <CircularProgress size={20} />
-                                ) : (
-                                    'Connect'
-                                )}
-                            </Button>
-                        )}
-                    </CardActions>
-                </Card>
+                            </CardActions>
+                        </Card>
+                    );
+                })}
             </Stack>
+
+            <TrackerLoginDialog
+                tracker={loginTracker}
+                onClose={() => setLoginTracker(null)}
+                onConnected={fetchStatus}
+            />
+
+            <TrackerSyncLog />
         </Box>
     );
 }
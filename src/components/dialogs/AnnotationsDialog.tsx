@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions,
+    Button, List, ListItem, ListItemText, ListSubheader,
+    IconButton, Tooltip, Typography, Box, CircularProgress
+} from '@mui/material';
+import BookmarkIcon from '@mui/icons-material/Bookmark';
+import OpenInNewIcon from '@mui/icons-material/OpenInNew';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useNavigate } from 'react-router-dom';
+import axios from 'axios';
+import { annotationColors } from '../../utils/annotations';
+import type { Annotation } from '../../utils/annotations';
+
+interface ChapterRef {
+    id: number;
+    name: string;
+}
+
+interface AnnotationsDialogProps {
+    open: boolean;
+    onClose: () => void;
+    novelId: number;
+    // Used to order groups and resolve chapter names
+    chapters: ChapterRef[];
+}
+
+export default function AnnotationsDialog({ open, onClose, novelId, chapters }: AnnotationsDialogProps) {
+    const navigate = useNavigate();
+    const [annotations, setAnnotations] = useState<Annotation[]>([]);
+    const [loading, setLoading] = useState(false);
+
+    // Reloaded every time the dialog opens
+    const fetchAnnotations = async () => {
+        if (!novelId) return;
+        setLoading(true);
+        try {
+            const res = await axios.get(`/api/annotations?novelId=${novelId}`);
+            setAnnotations(res.data || []);
+        } catch (e) {
+            console.error('Failed to fetch annotations', e);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleDelete = async (id: number) => {
+        try {
+            await axios.delete(`/api/annotations/${id}`);
+            setAnnotations(prev => prev.filter(a => a.id !== id));
+        } catch (e) {
+            console.error('Failed to delete annotation', e);
+        }
+    };
+
+    const handleJump = (annotation: Annotation) => {
+        onClose();
+        navigate(`/novel/${novelId}/chapter/${annotation.chapterId}?annotation=${annotation.id}`);
+    };
+
+    // Group by chapter, in chapter list order
+    const chapterOrder = new Map(chapters.map((c, index) => [c.id, index]));
+    const grouped = annotations.reduce((acc, a) => {
+        (acc[a.chapterId] ||= []).push(a);
+        return acc;
+    }, {} as Record<number, Annotation[]>);
+    const chapterIds = Object.keys(grouped)
+        .map(Number)
+        .sort((a, b) => (chapterOrder.get(a) ?? Infinity) - (chapterOrder.get(b) ?? Infinity));
+
+    const getChapterName = (chapterId: number) =>
+        chapters.find(c => c.id === chapterId)?.name || grouped[chapterId][0]?.chapterName || `Chapter ${chapterId}`;
+
+    return (
+        <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm" slotProps={{ transition: { onEnter: fetchAnnotations } }}>
+            <DialogTitle>Notes</DialogTitle>
+            <DialogContent dividers sx={{ p: 0 }}>
+                {loading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                        <CircularProgress />
+                    </Box>
+                ) : annotations.length === 0 ? (
+                    <Typography color="text.secondary" sx={{ p: 3, textAlign: 'center' }}>
+                        No highlights or bookmarks yet. Select text in the reader to add one.
+                    </Typography>
+                ) : (
+                    <List disablePadding>
+                        {chapterIds.map((chapterId) => (
+                            <li key={chapterId}>
+                                <ul style={{ padding: 0 }}>
+                                    <ListSubheader>{getChapterName(chapterId)}</ListSubheader>
+                                    {[...grouped[chapterId]]
+                                        .sort((a, b) => a.position - b.position)
+                                        .map((annotation) => (
+                                            <ListItem
+                                                key={annotation.id}
+                                                divider
+                                                secondaryAction={
+                                                    <Box>
+                                                        <Tooltip title="Open in Reader">
+                                                            <IconButton onClick={() => handleJump(annotation)}>
+                                                                <OpenInNewIcon />
+                                                            </IconButton>
+                                                        </Tooltip>
+                                                        <Tooltip title="Delete">
+                                                            <IconButton edge="end" onClick={() => handleDelete(annotation.id)}>
+                                                                <DeleteIcon />
+                                                            </IconButton>
+                                                        </Tooltip>
+                                                    </Box>
+                                                }
+                                                sx={{ pr: 12 }}
+                                            >
+                                                {annotation.type === 'bookmark' && (
+                                                    <BookmarkIcon color="primary" fontSize="small" sx={{ mr: 1.5 }} />
+                                                )}
+                                                <ListItemText
+                                                    primary={
+                                                        <Box
+                                                            component="span"
+                                                            sx={{
+                                                                bgcolor: annotation.type === 'highlight'
+                                                                    ? annotationColors[annotation.color]
+                                                                    : 'transparent',
+                                                                fontStyle: 'italic',
+                                                            }}
+                                                        >
+                                                            {annotation.quote.exact}
+                                                        </Box>
+                                                    }
+                                                    secondary={annotation.note || null}
+                                                />
+                                            </ListItem>
+                                        ))}
+                                </ul>
+                            </li>
+                        ))}
+                    </List>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose}>Close</Button>
+            </DialogActions>
+        </Dialog>
+    );
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions,
+    Button, List, ListItemButton, ListItemText, Checkbox,
+    ToggleButtonGroup, ToggleButton, Typography
+} from '@mui/material';
+import type { CategoryMode } from '../../utils/libraryBatch';
+
+interface Category {
+    id: number;
+    name: string;
+}
+
+interface BatchCategoryDialogProps {
+    open: boolean;
+    onClose: () => void;
+    categories: Category[];
+    novelCount: number;
+    onConfirm: (categoryIds: number[], mode: CategoryMode) => void;
+}
+
+export default function BatchCategoryDialog({ open, onClose, categories, novelCount, onConfirm }: BatchCategoryDialogProps) {
+    const [selected, setSelected] = useState<number[]>([]);
+    const [mode, setMode] = useState<CategoryMode>('move');
+
+    const handleEnter = () => {
+        setSelected([]);
+        setMode('move');
+    };
+
+    const toggle = (categoryId: number) => {
+        setSelected((prev) => prev.includes(categoryId)
+            ? prev.filter((id) => id !== categoryId)
+            : [...prev, categoryId]);
+    };
+
+    return (
+        <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs" slotProps={{ transition: { onEnter: handleEnter } }}>
+            <DialogTitle>Set Categories</DialogTitle>
+            <DialogContent dividers>
+                <ToggleButtonGroup
+                    value={mode}
+                    exclusive
+                    onChange={(_, value) => value && setMode(value)}
+                    size="small"
+                    fullWidth
+                >
+                    <ToggleButton value="move">Move</ToggleButton>
+                    <ToggleButton value="copy">Copy</ToggleButton>
+                </ToggleButtonGroup>
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                    {mode === 'move'
+                        ? `The ${novelCount} selected novel(s) will only be in the checked categories.`
+                        : `The checked categories are added to the ${novelCount} selected novel(s).`}
+                </Typography>
+                <List dense>
+                    {categories.map((category) => (
+                        <ListItemButton key={category.id} onClick={() => toggle(category.id)}>
+                            <Checkbox edge="start" checked={selected.includes(category.id)} tabIndex={-1} disableRipple />
+                            <ListItemText primary={category.name} />
+                        </ListItemButton>
+                    ))}
+                </List>
+                {categories.length === 0 && (
+                    <Typography color="text.secondary">No categories yet. Create one in Settings → Library.</Typography>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose}>Cancel</Button>
+                <Button
+                    variant="contained"
+                    disabled={mode === 'copy' && selected.length === 0}
+                    onClick={() => onConfirm(selected, mode)}
+                >
+                    {mode === 'move' ? 'Move' : 'Copy'}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+}
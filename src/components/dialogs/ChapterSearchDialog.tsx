@@ -0,0 +1,147 @@
+import { useState, useRef } from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions,
+    Button, List, ListItemButton, ListItemText, ListSubheader,
+    TextField, InputAdornment, IconButton, Typography, Box, LinearProgress
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import { useNavigate } from 'react-router-dom';
+import { MIN_QUERY_LENGTH, searchChapters } from '../../utils/chapterSearch';
+import type { ChapterSearchResult } from '../../utils/chapterSearch';
+
+interface ChapterRef {
+    id: number;
+    name: string;
+    isDownloaded: boolean;
+}
+
+interface ChapterSearchDialogProps {
+    open: boolean;
+    onClose: () => void;
+    novelId: number;
+    chapters: ChapterRef[];
+}
+
+export default function ChapterSearchDialog({ open, onClose, novelId, chapters }: ChapterSearchDialogProps) {
+    const navigate = useNavigate();
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<ChapterSearchResult[] | null>(null);
+    const [searchedQuery, setSearchedQuery] = useState('');
+    const [progress, setProgress] = useState<number | null>(null);
+    // Bumped to cancel a running search
+    const searchId = useRef(0);
+
+    const downloaded = chapters.filter((c) => c.isDownloaded);
+
+    const handleSearch = async () => {
+        const q = query.trim();
+        if (q.length < MIN_QUERY_LENGTH) return;
+
+        const id = ++searchId.current;
+        setResults([]);
+        setSearchedQuery(q);
+        setProgress(0);
+        const found = await searchChapters(downloaded, q, {
+            onProgress: (done) => id === searchId.current && setProgress(done),
+            isCancelled: () => id !== searchId.current,
+        });
+        if (id !== searchId.current) return;
+        setResults(found);
+        setProgress(null);
+    };
+
+    const handleClose = () => {
+        searchId.current++;
+        setProgress(null);
+        onClose();
+    };
+
+    const openResult = (chapterId: number, match: number) => {
+        handleClose();
+        navigate(`/novel/${novelId}/chapter/${chapterId}?search=${encodeURIComponent(searchedQuery)}&match=${match}`);
+    };
+
+    const total = results?.reduce((sum, r) => sum + r.count, 0) || 0;
+
+    return (
+        <Dialog open={open} onClose={handleClose} fullWidth maxWidth="sm">
+            <DialogTitle>Search Chapters</DialogTitle>
+            <DialogContent dividers sx={{ p: 0 }}>
+                <Box sx={{ p: 2 }}>
+                    <TextField
+                        fullWidth
+                        autoFocus
+                        size="small"
+                        placeholder="Character, place, phrase…"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                        slotProps={{
+                            input: {
+                                endAdornment: (
+                                    <InputAdornment position="end">
+                                        <IconButton edge="end" onClick={handleSearch} disabled={query.trim().length < MIN_QUERY_LENGTH}>
+                                            <SearchIcon />
+                                        </IconButton>
+                                    </InputAdornment>
+                                ),
+                            },
+                        }}
+                    />
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                        {progress !== null
+                            ? `Searching ${progress} of ${downloaded.length} chapters…`
+                            : results
+                                ? `${total} match(es) in ${results.length} chapter(s)`
+                                : `Searches the ${downloaded.length} downloaded chapter(s) of this novel.`}
+                    </Typography>
+                    {progress !== null && downloaded.length > 0 && (
+                        <LinearProgress
+                            variant="determinate"
+                            value={(progress / downloaded.length) * 100}
+                            sx={{ mt: 1 }}
+                        />
+                    )}
+                </Box>
+
+                {results && results.length > 0 && (
+                    <List disablePadding>
+                        {results.map((result) => (
+                            <li key={result.chapterId}>
+                                <ul style={{ padding: 0 }}>
+                                    <ListSubheader sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                                        <span>{result.chapterName}</span>
+                                        <span>{result.count}</span>
+                                    </ListSubheader>
+                                    {result.snippets.map((snippet) => (
+                                        <ListItemButton
+                                            key={snippet.match}
+                                            divider
+                                            onClick={() => openResult(result.chapterId, snippet.match)}
+                                        >
+                                            <ListItemText
+                                                primary={
+                                                    <>
+                                                        {snippet.before}
+                                                        <Box component="mark" sx={{ bgcolor: 'warning.main', color: 'inherit', borderRadius: 0.5 }}>
+                                                            {snippet.text}
+                                                        </Box>
+                                                        {snippet.after}
+                                                    </>
+                                                }
+                                                slotProps={{ primary: { variant: 'body2' } }}
+                                            />
+                                        </ListItemButton>
+                                    ))}
+                                </ul>
+                            </li>
+                        ))}
+                    </List>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={handleClose}>Close</Button>
+            </DialogActions>
+        </Dialog>
+    );
+}
@@ -0,0 +1,291 @@
+import { useState } from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions,
+    Button, List, ListItemButton, ListItemAvatar, ListItemText, ListSubheader, Avatar,
+    TextField, InputAdornment, IconButton, Typography, Box, LinearProgress,
+    Chip, Stack, Paper, Checkbox, FormControlLabel, Alert, Divider
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import ArrowForwardIcon from '@mui/icons-material/ArrowForward';
+import {
+    applyMigration,
+    buildMigrationPlan,
+    getMigrationSource,
+    searchMigrationCandidates,
+    summarizePlan,
+} from '../../utils/migration';
+import type { MigrationCandidate, MigrationPlan, MigrationSource } from '../../utils/migration';
+import { getProxiedImageUrl } from '../../utils/imageProxy';
+
+interface MigrationDialogProps {
+    open: boolean;
+    onClose: () => void;
+    // Library novels to migrate, one after another
+    novelIds: number[];
+    onMigrated: (novelIds: number[]) => void;
+}
+
+const UNMATCHED_PREVIEW = 10;
+
+export default function MigrationDialog({ open, onClose, novelIds, onMigrated }: MigrationDialogProps) {
+    const [index, setIndex] = useState(0);
+    const [source, setSource] = useState<MigrationSource | null>(null);
+    const [query, setQuery] = useState('');
+    const [candidates, setCandidates] = useState<MigrationCandidate[] | null>(null);
+    const [plan, setPlan] = useState<MigrationPlan | null>(null);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [removeOld, setRemoveOld] = useState(true);
+    const [migrated, setMigrated] = useState<number[]>([]);
+
+    const search = async (q: string, from: MigrationSource) => {
+        if (!q.trim()) return;
+        setBusy('Searching other sources...');
+        setError(null);
+        setCandidates(null);
+        try {
+            setCandidates(await searchMigrationCandidates(q.trim(), from.pluginId));
+        } catch (e) {
+            console.error('Migration search failed:', e);
+            setError('Search failed. Check that other sources are installed.');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const loadNovel = async (i: number) => {
+        setIndex(i);
+        setSource(null);
+        setPlan(null);
+        setCandidates(null);
+        setError(null);
+        setBusy('Loading novel...');
+        try {
+            const next = await getMigrationSource(novelIds[i]);
+            setSource(next);
+            setQuery(next.name);
+            await search(next.name, next);
+        } catch (e) {
+            console.error('Failed to load novel for migration:', e);
+            setError('Failed to load novel.');
+            setBusy(null);
+        }
+    };
+
+    const handleEnter = () => {
+        setMigrated([]);
+        setRemoveOld(true);
+        loadNovel(0);
+    };
+
+    const finish = (ids: number[]) => {
+        if (ids.length > 0) onMigrated(ids);
+        onClose();
+    };
+
+    const next = (ids: number[]) => {
+        if (index + 1 < novelIds.length) {
+            loadNovel(index + 1);
+        } else {
+            finish(ids);
+        }
+    };
+
+    const pickCandidate = async (candidate: MigrationCandidate) => {
+        if (!source) return;
+        setBusy('Comparing chapters...');
+        setError(null);
+        try {
+            setPlan(await buildMigrationPlan(source, candidate));
+        } catch (e) {
+            console.error('Failed to build migration preview:', e);
+            setError('Failed to load chapters from the new source.');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleMigrate = async () => {
+        if (!plan) return;
+        setBusy('Migrating...');
+        setError(null);
+        try {
+            const novelId = await applyMigration(plan, removeOld);
+            const ids = [...migrated, novelId];
+            setMigrated(ids);
+            setBusy(null);
+            next(ids);
+        } catch (e) {
+            console.error('Migration failed:', e);
+            setError(e instanceof Error ? e.message : 'Migration failed. The old entry was kept.');
+            setBusy(null);
+        }
+    };
+
+    const summary = plan ? summarizePlan(plan) : null;
+
+    // Group results by plugin for the picker
+    const groups = (candidates || []).reduce<Record<string, MigrationCandidate[]>>((acc, c) => {
+        (acc[c.pluginName] ||= []).push(c);
+        return acc;
+    }, {});
+
+    return (
+        <Dialog open={open} onClose={() => finish(migrated)} fullWidth maxWidth="sm" slotProps={{ transition: { onEnter: handleEnter } }}>
+            <DialogTitle>
+                Migrate Source
+                {novelIds.length > 1 && (
+                    <Typography variant="body2" color="text.secondary">
+                        Novel {index + 1} of {novelIds.length}
+                    </Typography>
+                )}
+            </DialogTitle>
+            <DialogContent dividers sx={{ p: 0 }}>
+                {busy && <LinearProgress />}
+                {error && <Alert severity="error" sx={{ m: 2 }}>{error}</Alert>}
+
+                {/* Step 1: pick the novel on another source */}
+                {source && !plan && (
+                    <>
+                        <Box sx={{ p: 2 }}>
+                            <TextField
+                                fullWidth
+                                size="small"
+                                label={`Search for "${source.name}"`}
+                                value={query}
+                                onChange={(e) => setQuery(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && search(query, source)}
+                                slotProps={{
+                                    input: {
+                                        endAdornment: (
+                                            <InputAdornment position="end">
+                                                <IconButton size="small" onClick={() => search(query, source)}>
+                                                    <SearchIcon />
+                                                </IconButton>
+                                            </InputAdornment>
+                                        ),
+                                    },
+                                }}
+                            />
+                        </Box>
+                        {candidates && candidates.length === 0 && (
+                            <Typography color="text.secondary" sx={{ px: 2, pb: 2 }}>
+                                No matches on other installed sources. Try a shorter or alternative title.
+                            </Typography>
+                        )}
+                        <List dense sx={{ maxHeight: 400, overflow: 'auto' }}>
+                            {Object.entries(groups).map(([pluginName, items]) => (
+                                <li key={pluginName}>
+                                    <ul style={{ padding: 0 }}>
+                                        <ListSubheader>{pluginName}</ListSubheader>
+                                        {items.map((candidate) => (
+                                            <ListItemButton
+                                                key={`${candidate.pluginId}:${candidate.path}`}
+                                                disabled={!!busy}
+                                                onClick={() => pickCandidate(candidate)}
+                                            >
+                                                <ListItemAvatar>
+                                                    <Avatar variant="rounded" src={getProxiedImageUrl(candidate.cover)} />
+                                                </ListItemAvatar>
+                                                <ListItemText primary={candidate.name} secondary={candidate.path} />
+                                            </ListItemButton>
+                                        ))}
+                                    </ul>
+                                </li>
+                            ))}
+                        </List>
+                    </>
+                )}
+
+                {/* Step 2: preview what will be carried over */}
+                {plan && summary && (
+                    <Box sx={{ p: 2 }}>
+                        <Stack direction="row" spacing={1} sx={{ alignItems: 'center', mb: 2 }}>
+                            <Paper variant="outlined" sx={{ p: 1, flex: 1 }}>
+                                <Typography variant="subtitle2" noWrap>{plan.source.name}</Typography>
+                                <Typography variant="caption" color="text.secondary">{plan.source.pluginId}</Typography>
+                            </Paper>
+                            <ArrowForwardIcon color="action" />
+                            <Paper variant="outlined" sx={{ p: 1, flex: 1 }}>
+                                <Typography variant="subtitle2" noWrap>{plan.target.name}</Typography>
+                                <Typography variant="caption" color="text.secondary">{plan.target.pluginName}</Typography>
+                            </Paper>
+                        </Stack>
+
+                        <Typography variant="body2">
+                            Chapters matched: <b>{summary.matched}</b> of {plan.matches.length}
+                            {summary.newChapters > 0 && ` (+${summary.newChapters} only on the new source)`}
+                        </Typography>
+                        <Typography variant="body2">
+                            Read chapters carried over: <b>{summary.readCarried}</b>
+                            {summary.readLost > 0 && (
+                                <Typography component="span" variant="body2" color="warning.main"> ({summary.readLost} without a match)</Typography>
+                            )}
+                        </Typography>
+                        <Typography variant="body2">
+                            Bookmarks and highlights: <b>{summary.annotationsCarried}</b>
+                            {summary.annotationsLost > 0 && (
+                                <Typography component="span" variant="body2" color="warning.main"> ({summary.annotationsLost} on unmatched chapters)</Typography>
+                            )}
+                        </Typography>
+
+                        <Stack direction="row" sx={{ flexWrap: 'wrap', gap: 1, mt: 1.5 }}>
+                            {plan.categories.map((category) => (
+                                <Chip key={category.id} label={category.name} size="small" />
+                            ))}
+                            {plan.trackers.map((link) => (
+                                <Chip key={link.tracker} label={link.title ? `${link.tracker}: ${link.title}` : link.tracker} size="small" color="primary" variant="outlined" />
+                            ))}
+                            {plan.categories.length === 0 && plan.trackers.length === 0 && (
+                                <Typography variant="caption" color="text.secondary">No categories or tracker links to copy.</Typography>
+                            )}
+                        </Stack>
+
+                        {summary.unmatched.length > 0 && (
+                            <>
+                                <Divider sx={{ my: 1.5 }} />
+                                <Typography variant="subtitle2" gutterBottom>Not found on the new source</Typography>
+                                {summary.unmatched.slice(0, UNMATCHED_PREVIEW).map(({ from }) => (
+                                    <Typography key={from.id} variant="body2" color={from.unread ? 'text.secondary' : 'warning.main'} noWrap>
+                                        {from.name}
+                                    </Typography>
+                                ))}
+                                {summary.unmatched.length > UNMATCHED_PREVIEW && (
+                                    <Typography variant="caption" color="text.secondary">
+                                        …and {summary.unmatched.length - UNMATCHED_PREVIEW} more
+                                    </Typography>
+                                )}
+                            </>
+                        )}
+
+                        <Divider sx={{ my: 1.5 }} />
+                        <FormControlLabel
+                            control={<Checkbox checked={removeOld} onChange={(e) => setRemoveOld(e.target.checked)} />}
+                            label="Remove the old entry from the library"
+                        />
+                    </Box>
+                )}
+            </DialogContent>
+            <DialogActions>
+                {plan && (
+                    <Button onClick={() => setPlan(null)} disabled={!!busy} sx={{ mr: 'auto' }}>
+                        Back
+                    </Button>
+                )}
+                {novelIds.length > 1 && (
+                    <Button onClick={() => next(migrated)} disabled={!!busy}>
+                        Skip
+                    </Button>
+                )}
+                <Button onClick={() => finish(migrated)} disabled={busy === 'Migrating...'}>
+                    Cancel
+                </Button>
+                {plan && (
+                    <Button variant="contained" onClick={handleMigrate} disabled={!!busy}>
+                        Migrate
+                    </Button>
+                )}
+            </DialogActions>
+        </Dialog>
+    );
+}
@@ -0,0 +1,80 @@
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions,
+    Button, Table, TableBody, TableRow, TableCell, Typography, Box
+} from '@mui/material';
+import { useNavigate } from 'react-router-dom';
+import { formatBinding, keyActions, loadKeymap } from '../../utils/keymap';
+import type { KeyScope } from '../../utils/keymap';
+
+interface ShortcutsDialogProps {
+    open: boolean;
+    onClose: () => void;
+}
+
+const sections: { scope: KeyScope; title: string }[] = [
+    { scope: 'global', title: 'Everywhere' },
+    { scope: 'reader', title: 'Reader' },
+];
+
+export default function ShortcutsDialog({ open, onClose }: ShortcutsDialogProps) {
+    const navigate = useNavigate();
+    // Read on every render so edits made in Settings show up immediately
+    const keymap = loadKeymap();
+
+    return (
+        <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+            <DialogTitle>Keyboard Shortcuts</DialogTitle>
+            <DialogContent dividers>
+                {sections.map(({ scope, title }) => (
+                    <Box key={scope} sx={{ mb: 2 }}>
+                        <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                            {title}
+                        </Typography>
+                        <Table size="small">
+                            <TableBody>
+                                {keyActions.filter((a) => a.scope === scope).map(({ action, label }) => (
+                                    <TableRow key={action}>
+                                        <TableCell>{label}</TableCell>
+                                        <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                                            {keymap[action].length > 0
+                                                ? keymap[action].map((binding) => (
+                                                    <Box
+                                                        key={binding}
+                                                        component="kbd"
+                                                        sx={{
+                                                            ml: 0.5,
+                                                            px: 0.75,
+                                                            py: 0.25,
+                                                            border: 1,
+                                                            borderColor: 'divider',
+                                                            borderRadius: 0.5,
+                                                            fontFamily: 'monospace',
+                                                            fontSize: '0.8rem',
+                                                        }}
+                                                    >
+                                                        {formatBinding(binding)}
+                                                    </Box>
+                                                ))
+                                                : <Typography variant="caption" color="text.secondary">Unbound</Typography>}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </Box>
+                ))}
+            </DialogContent>
+            <DialogActions>
+                <Button
+                    onClick={() => {
+                        onClose();
+                        navigate('/settings?tab=keyboard');
+                    }}
+                >
+                    Customize
+                </Button>
+                <Button onClick={onClose}>Close</Button>
+            </DialogActions>
+        </Dialog>
+    );
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import axios from 'axios';
+import TrackerDialog from './TrackerDialog';
+import { createMockTracker } from '../../utils/mockTracker';
+import type { MockTracker } from '../../utils/mockTracker';
+
+const NOVEL_ID = 7;
+
+describe('TrackerDialog', () => {
+    const originalAdapter = axios.defaults.adapter;
+    let tracker: MockTracker;
+
+    beforeEach(() => {
+        tracker = createMockTracker({
+            connected: ['AniList'],
+            catalog: {
+                AniList: [
+                    { remoteId: 'al-1', title: 'Mock Novel', totalChapters: 120, publishingStatus: 'Releasing' },
+                    { remoteId: 'al-2', title: 'Mock Novel: Side Stories', totalChapters: 10 },
+                ],
+            },
+        });
+        axios.defaults.adapter = tracker.adapter;
+    });
+
+    afterEach(() => {
+        cleanup();
+        axios.defaults.adapter = originalAdapter;
+    });
+
+    const stored = () => tracker.entries.get(NOVEL_ID)?.get('AniList');
+
+    it('searches, binds and edits status, score, progress and dates', async () => {
+        render(
+            <MemoryRouter>
+                <TrackerDialog open onClose={() => {}} novelId={NOVEL_ID} novelTitle="Mock Novel" />
+            </MemoryRouter>
+        );
+
+        // Search opens with the novel's title
+        fireEvent.click(await screen.findByRole('button', { name: 'Track' }));
+        expect(await screen.findByText('Mock Novel: Side Stories')).toBeTruthy();
+        expect(tracker.requests).toContainEqual({ method: 'GET', path: '/AniList/search', body: undefined });
+
+        // Bind
+        fireEvent.click(screen.getByText('Releasing · 120 chapters'));
+        await screen.findByRole('combobox');
+        expect(stored()).toMatchObject({ remoteId: 'al-1', status: 'plan_to_read', progress: 0 });
+
+        // Status
+        fireEvent.mouseDown(screen.getByRole('combobox'));
+        fireEvent.click(await screen.findByRole('option', { name: 'Reading' }));
+        await waitFor(() => expect(stored()?.status).toBe('reading'));
+
+        // Score, clamped to the tracker's maximum
+        const score = screen.getByLabelText('Score (0-100)');
+        fireEvent.change(score, { target: { value: '150' } });
+        fireEvent.blur(score);
+        await waitFor(() => expect(stored()?.score).toBe(100));
+
+        // Progress
+        const progress = screen.getByLabelText('Chapters');
+        fireEvent.change(progress, { target: { value: '12' } });
+        fireEvent.keyDown(progress, { key: 'Enter' });
+        await waitFor(() => expect(stored()?.progress).toBe(12));
+
+        // Dates, including clearing one
+        fireEvent.change(screen.getByLabelText('Started'), { target: { value: '2026-01-02' } });
+        await waitFor(() => expect(stored()?.startDate).toBe('2026-01-02'));
+        fireEvent.change(screen.getByLabelText('Finished'), { target: { value: '2026-03-04' } });
+        await waitFor(() => expect(stored()?.finishDate).toBe('2026-03-04'));
+        fireEvent.change(screen.getByLabelText('Finished'), { target: { value: '' } });
+        await waitFor(() => expect(stored()?.finishDate).toBeUndefined());
+        expect(tracker.requests).toContainEqual({ method: 'PUT', path: `/novel/${NOVEL_ID}/AniList`, body: { finishDate: '' } });
+    });
+
+    it('pulls changes made on the tracker', async () => {
+        tracker.entries.set(NOVEL_ID, new Map([['AniList', {
+            tracker: 'AniList', remoteId: 'al-1', title: 'Mock Novel', status: 'reading' as const, score: 70, progress: 3,
+        }]]));
+        render(
+            <MemoryRouter>
+                <TrackerDialog open onClose={() => {}} novelId={NOVEL_ID} novelTitle="Mock Novel" />
+            </MemoryRouter>
+        );
+        await waitFor(() => expect((screen.getByLabelText('Chapters') as HTMLInputElement).value).toBe('3'));
+
+        tracker.editRemote(NOVEL_ID, 'AniList', { progress: 9, status: 'on_hold' });
+        fireEvent.click(within(screen.getByLabelText('Refresh from tracker')).getByRole('button'));
+
+        await waitFor(() => expect((screen.getByLabelText('Chapters') as HTMLInputElement).value).toBe('9'));
+        expect(screen.getByRole('combobox').textContent).toBe('On Hold');
+    });
+});
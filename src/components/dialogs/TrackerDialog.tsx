@@ -0,0 +1,358 @@
+import { useState } from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions,
+    Button, List, ListItemButton, ListItemAvatar, ListItemText, Avatar,
+    TextField, InputAdornment, IconButton, Typography, Box, LinearProgress,
+    Paper, Stack, Select, MenuItem, FormControl, InputLabel, Tooltip, Alert
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import SyncIcon from '@mui/icons-material/Sync';
+import LinkOffIcon from '@mui/icons-material/LinkOff';
+import { useNavigate } from 'react-router-dom';
+import TrackerAvatar from '../TrackerAvatar';
+import {
+    bindTracker,
+    getConnectedTrackers,
+    getTrackEntries,
+    hasCapability,
+    refreshTrackEntry,
+    searchTracker,
+    unbindTracker,
+    updateTrackEntry,
+} from '../../utils/trackers';
+import type { TrackEntry, TrackEntryPatch, TrackerInfo, TrackerSearchResult, TrackStatus } from '../../utils/trackers';
+
+interface TrackerDialogProps {
+    open: boolean;
+    onClose: () => void;
+    novelId: number;
+    novelTitle: string;
+}
+
+export default function TrackerDialog({ open, onClose, novelId, novelTitle }: TrackerDialogProps) {
+    const navigate = useNavigate();
+    const [trackers, setTrackers] = useState<TrackerInfo[] | null>(null);
+    const [entries, setEntries] = useState<Record<string, TrackEntry>>({});
+    // Unsaved text field values (score, progress) per tracker
+    const [drafts, setDrafts] = useState<Record<string, Partial<Record<'score' | 'progress', string>>>>({});
+    const [busy, setBusy] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Search view for binding a tracker
+    const [searching, setSearching] = useState<TrackerInfo | null>(null);
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<TrackerSearchResult[] | null>(null);
+
+    const setEntry = (entry: TrackEntry) => {
+        setEntries((prev) => ({ ...prev, [entry.tracker]: entry }));
+    };
+
+    const handleEnter = async () => {
+        setTrackers(null);
+        setEntries({});
+        setDrafts({});
+        setSearching(null);
+        setError(null);
+        try {
+            const [connected, bound] = await Promise.all([getConnectedTrackers(), getTrackEntries(novelId)]);
+            setTrackers(connected);
+            setEntries(Object.fromEntries(bound.map((e) => [e.tracker, e])));
+            // Pull changes made on the trackers' own sites
+            for (const entry of bound) {
+                refreshTrackEntry(novelId, entry.tracker)
+                    .then(setEntry)
+                    .catch((e) => console.error(`Failed to refresh ${entry.tracker}:`, e));
+            }
+        } catch (e) {
+            console.error('Failed to load trackers:', e);
+            setTrackers([]);
+            setError('Failed to load trackers.');
+        }
+    };
+
+    const runSearch = async (tracker: TrackerInfo, q: string) => {
+        if (!q.trim()) return;
+        setBusy(tracker.id);
+        setResults(null);
+        setError(null);
+        try {
+            setResults(await searchTracker(tracker.id, q.trim()));
+        } catch (e) {
+            console.error('Tracker search failed:', e);
+            setError(`Search on ${tracker.name} failed.`);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const openSearch = (tracker: TrackerInfo) => {
+        setSearching(tracker);
+        setQuery(novelTitle);
+        runSearch(tracker, novelTitle);
+    };
+
+    const handleBind = async (result: TrackerSearchResult) => {
+        if (!searching) return;
+        setBusy(searching.id);
+        setError(null);
+        try {
+            setEntry(await bindTracker(novelId, searching.id, result));
+            setSearching(null);
+        } catch (e) {
+            console.error('Failed to bind tracker:', e);
+            setError(`Failed to track on ${searching.name}.`);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleUnbind = async (tracker: TrackerInfo) => {
+        if (!confirm(`Stop tracking on ${tracker.name}? The entry on ${tracker.name} is not deleted.`)) return;
+        setBusy(tracker.id);
+        try {
+            await unbindTracker(novelId, tracker.id);
+            setEntries((prev) => {
+                const next = { ...prev };
+                delete next[tracker.id];
+                return next;
+            });
+        } catch (e) {
+            console.error('Failed to unbind tracker:', e);
+            setError(`Failed to stop tracking on ${tracker.name}.`);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    // Optimistic update, replaced by what the tracker stored
+    const pushUpdate = async (tracker: TrackerInfo, patch: TrackEntryPatch) => {
+        const previous = entries[tracker.id];
+        if (!previous) return;
+        setEntry({ ...previous, ...patch });
+        setBusy(tracker.id);
+        setError(null);
+        try {
+            setEntry(await updateTrackEntry(novelId, tracker.id, patch));
+        } catch (e) {
+            console.error('Failed to update tracker:', e);
+            setEntry(previous);
+            setError(`Failed to update ${tracker.name}.`);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleRefresh = async (tracker: TrackerInfo) => {
+        setBusy(tracker.id);
+        try {
+            setEntry(await refreshTrackEntry(novelId, tracker.id));
+        } catch (e) {
+            console.error('Failed to refresh tracker:', e);
+            setError(`Failed to refresh ${tracker.name}.`);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const setDraft = (tracker: string, field: 'score' | 'progress', value: string) => {
+        setDrafts((prev) => ({ ...prev, [tracker]: { ...prev[tracker], [field]: value } }));
+    };
+
+    const commitDraft = (tracker: TrackerInfo, field: 'score' | 'progress', max?: number) => {
+        const raw = drafts[tracker.id]?.[field];
+        setDrafts((prev) => ({ ...prev, [tracker.id]: { ...prev[tracker.id], [field]: undefined } }));
+        if (raw === undefined) return;
+        const value = Math.max(0, Math.min(max ?? Infinity, Math.round(Number(raw) || 0)));
+        if (value !== entries[tracker.id]?.[field]) pushUpdate(tracker, { [field]: value });
+    };
+
+    const renderEntry = (tracker: TrackerInfo, entry: TrackEntry) => (
+        <Stack spacing={2} sx={{ mt: 1 }}>
+            <FormControl size="small" fullWidth>
+                <InputLabel>Status</InputLabel>
+                <Select
+                    label="Status"
+                    value={entry.status}
+                    onChange={(e) => pushUpdate(tracker, { status: e.target.value as TrackStatus })}
+                >
+                    {tracker.statuses.map((s) => (
+                        <MenuItem key={s.value} value={s.value}>{s.label}</MenuItem>
+                    ))}
+                </Select>
+            </FormControl>
+            <Stack direction="row" spacing={2}>
+                {hasCapability(tracker, 'progress') && (
+                    <TextField
+                        size="small"
+                        type="number"
+                        label="Chapters"
+                        value={drafts[tracker.id]?.progress ?? entry.progress}
+                        onChange={(e) => setDraft(tracker.id, 'progress', e.target.value)}
+                        onBlur={() => commitDraft(tracker, 'progress', entry.totalChapters || undefined)}
+                        onKeyDown={(e) => e.key === 'Enter' && commitDraft(tracker, 'progress', entry.totalChapters || undefined)}
+                        slotProps={{
+                            input: {
+                                endAdornment: entry.totalChapters
+                                    ? <InputAdornment position="end">/ {entry.totalChapters}</InputAdornment>
+                                    : undefined,
+                            },
+                        }}
+                        fullWidth
+                    />
+                )}
+                {hasCapability(tracker, 'score') && (
+                    <TextField
+                        size="small"
+                        type="number"
+                        label={`Score (0-${tracker.maxScore})`}
+                        value={drafts[tracker.id]?.score ?? entry.score}
+                        onChange={(e) => setDraft(tracker.id, 'score', e.target.value)}
+                        onBlur={() => commitDraft(tracker, 'score', tracker.maxScore)}
+                        onKeyDown={(e) => e.key === 'Enter' && commitDraft(tracker, 'score', tracker.maxScore)}
+                        fullWidth
+                    />
+                )}
+            </Stack>
+            {hasCapability(tracker, 'dates') && (
+                <Stack direction="row" spacing={2}>
+                    <TextField
+                        size="small"
+                        type="date"
+                        label="Started"
+                        value={entry.startDate || ''}
+                        onChange={(e) => pushUpdate(tracker, { startDate: e.target.value })}
+                        slotProps={{ inputLabel: { shrink: true } }}
+                        fullWidth
+                    />
+                    <TextField
+                        size="small"
+                        type="date"
+                        label="Finished"
+                        value={entry.finishDate || ''}
+                        onChange={(e) => pushUpdate(tracker, { finishDate: e.target.value })}
+                        slotProps={{ inputLabel: { shrink: true } }}
+                        fullWidth
+                    />
+                </Stack>
+            )}
+        </Stack>
+    );
+
+    return (
+        <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm" slotProps={{ transition: { onEnter: handleEnter } }}>
+            <DialogTitle>{searching ? `Search ${searching.name}` : 'Trackers'}</DialogTitle>
+            <DialogContent dividers sx={{ p: 0 }}>
+                {(trackers === null || busy) && <LinearProgress />}
+                {error && <Alert severity="error" sx={{ m: 2 }}>{error}</Alert>}
+
+                {searching ? (
+                    <>
+                        <Box sx={{ p: 2 }}>
+                            <TextField
+                                fullWidth
+                                autoFocus
+                                size="small"
+                                value={query}
+                                onChange={(e) => setQuery(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && runSearch(searching, query)}
+                                slotProps={{
+                                    input: {
+                                        endAdornment: (
+                                            <InputAdornment position="end">
+                                                <IconButton size="small" onClick={() => runSearch(searching, query)}>
+                                                    <SearchIcon />
+                                                </IconButton>
+                                            </InputAdornment>
+                                        ),
+                                    },
+                                }}
+                            />
+                        </Box>
+                        {results && results.length === 0 && (
+                            <Typography color="text.secondary" sx={{ px: 2, pb: 2 }}>
+                                No results on {searching.name}.
+                            </Typography>
+                        )}
+                        <List dense sx={{ maxHeight: 400, overflow: 'auto' }}>
+                            {results?.map((result) => (
+                                <ListItemButton key={result.remoteId} disabled={!!busy} onClick={() => handleBind(result)}>
+                                    <ListItemAvatar>
+                                        <Avatar variant="rounded" src={result.cover} />
+                                    </ListItemAvatar>
+                                    <ListItemText
+                                        primary={result.title}
+                                        secondary={[
+                                            result.publishingStatus,
+                                            result.totalChapters && `${result.totalChapters} chapters`,
+                                        ].filter(Boolean).join(' · ')}
+                                    />
+                                </ListItemButton>
+                            ))}
+                        </List>
+                    </>
+                ) : (
+                    <Stack spacing={2} sx={{ p: 2 }}>
+                        {trackers?.length === 0 && (
+                            <Box sx={{ textAlign: 'center', py: 2 }}>
+                                <Typography color="text.secondary" gutterBottom>
+                                    No trackers connected.
+                                </Typography>
+                                <Button onClick={() => navigate('/settings?tab=trackers')}>
+                                    Connect in Settings
+                                </Button>
+                            </Box>
+                        )}
+                        {trackers?.map((tracker) => {
+                            const entry = entries[tracker.id];
+                            return (
+                                <Paper key={tracker.id} variant="outlined" sx={{ p: 2 }}>
+                                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                                        <TrackerAvatar tracker={tracker} size={32} />
+                                        <Box sx={{ flex: 1, minWidth: 0 }}>
+                                            <Typography variant="subtitle1">{tracker.name}</Typography>
+                                            {entry && (
+                                                <Typography variant="body2" color="text.secondary" noWrap>
+                                                    {entry.title}
+                                                </Typography>
+                                            )}
+                                        </Box>
+                                        {entry ? (
+                                            <>
+                                                <Tooltip title="Refresh from tracker">
+                                                    <span>
+                                                        <IconButton size="small" disabled={!!busy} onClick={() => handleRefresh(tracker)}>
+                                                            <SyncIcon />
+                                                        </IconButton>
+                                                    </span>
+                                                </Tooltip>
+                                                <Tooltip title="Stop tracking">
+                                                    <span>
+                                                        <IconButton size="small" disabled={!!busy} onClick={() => handleUnbind(tracker)}>
+                                                            <LinkOffIcon />
+                                                        </IconButton>
+                                                    </span>
+                                                </Tooltip>
+                                            </>
+                                        ) : (
+                                            <Button size="small" variant="outlined" onClick={() => openSearch(tracker)}>
+                                                Track
+                                            </Button>
+                                        )}
+                                    </Box>
+                                    {entry && renderEntry(tracker, entry)}
+                                </Paper>
+                            );
+                        })}
+                    </Stack>
+                )}
+            </DialogContent>
+            <DialogActions>
+                {searching ? (
+                    <Button onClick={() => setSearching(null)}>Back</Button>
+                ) : (
+                    <Button onClick={onClose}>Close</Button>
+                )}
+            </DialogActions>
+        </Dialog>
+    );
+}
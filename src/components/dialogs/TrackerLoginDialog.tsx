@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions,
+    Button, TextField, Stack, Alert
+} from '@mui/material';
+import { loginTracker } from '../../utils/trackers';
+import type { TrackerInfo } from '../../utils/trackers';
+
+interface TrackerLoginDialogProps {
+    // Credentials or token tracker to sign in to; closed when null
+    tracker: TrackerInfo | null;
+    onClose: () => void;
+    onConnected: () => void;
+}
+
+export default function TrackerLoginDialog({ tracker, onClose, onConnected }: TrackerLoginDialogProps) {
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [token, setToken] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleEnter = () => {
+        setUsername('');
+        setPassword('');
+        setToken('');
+        setError(null);
+    };
+
+    const canSubmit = tracker?.auth === 'token' ? !!token.trim() : !!username.trim() && !!password;
+
+    const handleSubmit = async () => {
+        if (!tracker || !canSubmit) return;
+        setLoading(true);
+        setError(null);
+        try {
+            await loginTracker(tracker.id, tracker.auth === 'token'
+                ? { token: token.trim() }
+                : { username: username.trim(), password });
+            onConnected();
+            onClose();
+        } catch (e) {
+            console.error('Tracker login failed:', e);
+            setError(`Failed to sign in to ${tracker.name}. Check your ${tracker.auth === 'token' ? 'token' : 'username and password'}.`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={!!tracker} onClose={onClose} fullWidth maxWidth="xs" slotProps={{ transition: { onEnter: handleEnter } }}>
+            <DialogTitle>Sign in to {tracker?.name}</DialogTitle>
+            <DialogContent>
+                <Stack spacing={2} sx={{ mt: 1 }}>
+                    {error && <Alert severity="error">{error}</Alert>}
+                    {tracker?.auth === 'token' ? (
+                        <TextField
+                            autoFocus
+                            fullWidth
+                            label="Token"
+                            value={token}
+                            onChange={(e) => setToken(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                            helperText={tracker.authHint}
+                        />
+                    ) : (
+                        <>
+                            <TextField
+                                autoFocus
+                                fullWidth
+                                label="Username"
+                                autoComplete="username"
+                                value={username}
+                                onChange={(e) => setUsername(e.target.value)}
+                            />
+                            <TextField
+                                fullWidth
+                                type="password"
+                                label="Password"
+                                autoComplete="current-password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                            />
+                        </>
+                    )}
+                </Stack>
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose}>Cancel</Button>
+                <Button variant="contained" onClick={handleSubmit} disabled={!canSubmit || loading}>
+                    Sign In
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+}
@@ -0,0 +1,91 @@
+/**
+ * Library Filter Sheet Component
+ * Bottom sheet with tri-state library filters for the current category
+ */
+
+import { Drawer, Box, Typography, Button, IconButton, Divider } from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import TriStateFilter from './TriStateFilter';
+import { emptyFilters, getFilterOptions, libraryFlags } from '../../utils/libraryFilters';
+import type { LibraryFilterGroup, LibraryFilterState, LibraryNovel, TriStateValue } from '../../utils/libraryFilters';
+
+interface LibraryFilterSheetProps {
+    open: boolean;
+    onClose: () => void;
+    categoryName: string;
+    novels: LibraryNovel[];
+    filters: LibraryFilterState;
+    onChange: (filters: LibraryFilterState) => void;
+}
+
+export default function LibraryFilterSheet({ open, onClose, categoryName, novels, filters, onChange }: LibraryFilterSheetProps) {
+    const handleChange = (group: string, value: TriStateValue) => {
+        onChange({ ...filters, [group as LibraryFilterGroup]: value });
+    };
+
+    const groups: { group: Exclude<LibraryFilterGroup, 'flags'>; label: string }[] = [
+        { group: 'sources', label: 'Source' },
+        { group: 'statuses', label: 'Status' },
+        { group: 'genres', label: 'Genre' },
+    ];
+
+    return (
+        <Drawer
+            anchor="bottom"
+            open={open}
+            onClose={onClose}
+            slotProps={{
+                paper: {
+                    sx: {
+                        maxHeight: '75vh',
+                        maxWidth: 720,
+                        mx: 'auto',
+                        p: 2,
+                        borderTopLeftRadius: 12,
+                        borderTopRightRadius: 12,
+                    },
+                },
+            }}
+        >
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                <Typography variant="h6">Filter · {categoryName}</Typography>
+                <Box>
+                    <Button size="small" startIcon={<RestartAltIcon />} onClick={() => onChange(emptyFilters)}>
+                        Reset
+                    </Button>
+                    <IconButton onClick={onClose} size="small">
+                        <CloseIcon />
+                    </IconButton>
+                </Box>
+            </Box>
+            <Divider sx={{ mb: 2 }} />
+
+            <Box sx={{ overflow: 'auto' }}>
+                <TriStateFilter
+                    name="flags"
+                    label="Reading"
+                    value={filters.flags}
+                    options={libraryFlags}
+                    onChange={handleChange}
+                />
+                {groups.map(({ group, label }) => {
+                    const options = getFilterOptions(novels, group);
+                    if (options.length === 0) return null;
+                    return (
+                        <Box key={group}>
+                            <Divider sx={{ my: 1 }} />
+                            <TriStateFilter
+                                name={group}
+                                label={label}
+                                value={filters[group]}
+                                options={options}
+                                onChange={handleChange}
+                            />
+                        </Box>
+                    );
+                })}
+            </Box>
+        </Drawer>
+    );
+}
@@ -9,5 +9,6 @@ export { default as TextFilter } from './TextFilter';
 export { default as SelectFilter } from './SelectFilter';
 export { default as CheckboxFilter } from './CheckboxFilter';
 export { default as TriStateFilter } from './TriStateFilter';
+export { default as LibraryFilterSheet } from './LibraryFilterSheet';
 export { FilterTypes } from './types';
 export type { Filter, Filters, FilterValues, FilterOption } from './types';
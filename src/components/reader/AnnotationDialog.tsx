@@ -0,0 +1,124 @@
+/**
+ * Annotation Dialog Component
+ *
+ * Create or edit a highlight/bookmark: note text, colour and delete.
+ */
+
+import { useState } from 'react';
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Button,
+    TextField,
+    Box,
+    Typography,
+    Tooltip,
+} from '@mui/material';
+import { annotationColors } from '../../utils/annotations';
+import type { AnnotationColor, AnnotationType } from '../../utils/annotations';
+
+interface Props {
+    open: boolean;
+    type: AnnotationType;
+    quote: string;
+    initialNote?: string;
+    initialColor?: AnnotationColor;
+    // Existing annotations can be deleted, new ones cannot
+    canDelete?: boolean;
+    onClose: () => void;
+    onSave: (note: string, color: AnnotationColor) => void;
+    onDelete?: () => void;
+}
+
+export default function AnnotationDialog({
+    open,
+    type,
+    quote,
+    initialNote = '',
+    initialColor = 'yellow',
+    canDelete = false,
+    onClose,
+    onSave,
+    onDelete,
+}: Props) {
+    const [note, setNote] = useState(initialNote);
+    const [color, setColor] = useState<AnnotationColor>(initialColor);
+
+    // Reset the form each time the dialog opens
+    const handleEnter = () => {
+        setNote(initialNote);
+        setColor(initialColor);
+    };
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            fullWidth
+            maxWidth="xs"
+            slotProps={{ transition: { onEnter: handleEnter } }}
+        >
+            <DialogTitle>{type === 'bookmark' ? 'Bookmark' : 'Highlight'}</DialogTitle>
+            <DialogContent dividers>
+                <Typography
+                    variant="body2"
+                    sx={{
+                        mb: 2,
+                        p: 1,
+                        borderRadius: 1,
+                        fontStyle: 'italic',
+                        bgcolor: type === 'highlight' ? annotationColors[color] : 'action.hover',
+                        maxHeight: 120,
+                        overflow: 'auto',
+                    }}
+                >
+                    {quote}
+                </Typography>
+
+                {type === 'highlight' && (
+                    <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+                        {(Object.keys(annotationColors) as AnnotationColor[]).map((c) => (
+                            <Tooltip key={c} title={c}>
+                                <Box
+                                    onClick={() => setColor(c)}
+                                    sx={{
+                                        width: 28,
+                                        height: 28,
+                                        borderRadius: '50%',
+                                        bgcolor: annotationColors[c],
+                                        border: '2px solid',
+                                        borderColor: color === c ? 'primary.main' : 'transparent',
+                                        cursor: 'pointer',
+                                    }}
+                                />
+                            </Tooltip>
+                        ))}
+                    </Box>
+                )}
+
+                <TextField
+                    label="Note"
+                    multiline
+                    minRows={3}
+                    fullWidth
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    autoFocus
+                />
+            </DialogContent>
+            <DialogActions>
+                {canDelete && onDelete && (
+                    <Button color="error" onClick={onDelete} sx={{ mr: 'auto' }}>
+                        Delete
+                    </Button>
+                )}
+                <Button onClick={onClose}>Cancel</Button>
+                <Button variant="contained" onClick={() => onSave(note, color)}>
+                    Save
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+}
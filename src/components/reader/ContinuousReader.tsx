@@ -0,0 +1,137 @@
+/**
+ * Continuous Reader Component
+ *
+ * Renders a chain of chapters one below the other:
+ * - Loads the next chapter when the reader nears the end of the chain
+ * - Reports which chapter is currently in view
+ * - Reports scroll progress within the chapter in view
+ */
+
+import { useEffect, useRef } from 'react';
+import { Box, CircularProgress, Divider, Typography } from '@mui/material';
+
+export interface ChainedChapter {
+    id: number;
+    name: string;
+    content?: string;
+}
+
+interface Props {
+    chapters: ChainedChapter[];
+    hasMore: boolean;
+    loadingMore: boolean;
+    onLoadMore: () => void;
+    onChapterVisible: (index: number) => void;
+    onProgress: (index: number, percent: number) => void;
+    onToggleOverlay: () => void;
+}
+
+export default function ContinuousReader({
+    chapters,
+    hasMore,
+    loadingMore,
+    onLoadMore,
+    onChapterVisible,
+    onProgress,
+    onToggleOverlay,
+}: Props) {
+    const sectionRefs = useRef<(HTMLElement | null)[]>([]);
+    const sentinelRef = useRef<HTMLDivElement>(null);
+    const visibleIndex = useRef(0);
+    const lastProgressSave = useRef(0);
+
+    // Track the chapter crossing the middle of the viewport
+    useEffect(() => {
+        const observer = new IntersectionObserver(
+            (entries) => {
+                for (const entry of entries) {
+                    if (!entry.isIntersecting) continue;
+                    const index = sectionRefs.current.indexOf(entry.target as HTMLElement);
+                    if (index !== -1 && index !== visibleIndex.current) {
+                        visibleIndex.current = index;
+                        onChapterVisible(index);
+                    }
+                }
+            },
+            { rootMargin: '-50% 0px -50% 0px' }
+        );
+
+        sectionRefs.current.length = chapters.length;
+        sectionRefs.current.forEach((el) => el && observer.observe(el));
+        return () => observer.disconnect();
+    }, [chapters.length, onChapterVisible]);
+
+    // Load the next chapter well before the end is reached
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !hasMore || loadingMore) return;
+
+        const observer = new IntersectionObserver(
+            (entries) => {
+                if (entries.some((entry) => entry.isIntersecting)) {
+                    onLoadMore();
+                }
+            },
+            { rootMargin: '0px 0px 1500px 0px' }
+        );
+
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMore, loadingMore, onLoadMore, chapters.length]);
+
+    // Progress within the chapter in view
+    useEffect(() => {
+        const handleScroll = () => {
+            const now = Date.now();
+            if (now - lastProgressSave.current < 1000) return; // Throttle to 1s
+            lastProgressSave.current = now;
+
+            const index = visibleIndex.current;
+            const section = sectionRefs.current[index];
+            if (!section) return;
+
+            const scrollable = Math.max(1, section.offsetHeight - window.innerHeight);
+            const percent = ((window.scrollY - section.offsetTop) / scrollable) * 100;
+            onProgress(index, Math.min(100, Math.max(0, percent)));
+        };
+
+        window.addEventListener('scroll', handleScroll, { passive: true });
+        return () => window.removeEventListener('scroll', handleScroll);
+    }, [onProgress]);
+
+    return (
+        <Box onClick={onToggleOverlay} sx={{ pt: 10, pb: 12, minHeight: '100vh' }}>
+            {chapters.map((ch, index) => (
+                <Box
+                    component="section"
+                    key={ch.id}
+                    ref={(el: HTMLElement | null) => { sectionRefs.current[index] = el; }}
+                >
+                    {index > 0 && (
+                        <Box className="reader-content" sx={{ py: 4 }}>
+                            <Divider sx={{ borderColor: 'currentColor', opacity: 0.2, mb: 3 }} />
+                            <Typography variant="h6" sx={{ opacity: 0.8 }}>
+                                {ch.name}
+                            </Typography>
+                        </Box>
+                    )}
+                    <div
+                        className="reader-content"
+                        data-chapter-content={ch.id}
+                        dangerouslySetInnerHTML={{ __html: ch.content || 'No content found.' }}
+                    />
+                </Box>
+            ))}
+
+            <Box ref={sentinelRef} sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                {loadingMore ? (
+                    <CircularProgress size={24} />
+                ) : !hasMore && (
+                    <Typography variant="caption" sx={{ opacity: 0.6 }}>
+                        No more chapters
+                    </Typography>
+                )}
+            </Box>
+        </Box>
+    );
+}
@@ -0,0 +1,160 @@
+/**
+ * Paged Reader Component
+ *
+ * Lays chapter HTML out into CSS columns, one column per page:
+ * - Tap zones (left third = previous, right third = next, middle = overlay)
+ * - Horizontal swipe gestures
+ * - Re-paginates on resize, image load and settings changes
+ */
+
+import { useEffect, useLayoutEffect, useRef, useState, useCallback } from 'react';
+import { Box, Typography } from '@mui/material';
+
+interface Props {
+    html: string;
+    page: number;
+    pageCount: number;
+    // Changes whenever a setting that affects layout changes
+    layoutKey: string;
+    // Called after every pagination; `initial` is true for the first one after mount
+    onLayout: (pageCount: number, initial: boolean) => void;
+    onTurnPage: (direction: 1 | -1) => void;
+    onToggleOverlay: () => void;
+}
+
+const SWIPE_THRESHOLD = 50;
+const TAP_ZONE = 0.3;
+
+export default function PagedReader({
+    html,
+    page,
+    pageCount,
+    layoutKey,
+    onLayout,
+    onTurnPage,
+    onToggleOverlay,
+}: Props) {
+    const contentRef = useRef<HTMLDivElement>(null);
+    const touchStart = useRef<{ x: number; y: number } | null>(null);
+    const swiped = useRef(false);
+    const laidOut = useRef(false);
+    const [columnWidth, setColumnWidth] = useState(0);
+
+    const measure = useCallback(() => {
+        const el = contentRef.current;
+        if (!el) return;
+
+        const style = window.getComputedStyle(el);
+        const horizontalPadding = parseFloat(style.paddingLeft) + parseFloat(style.paddingRight);
+        const width = Math.max(1, Math.round(el.clientWidth - horizontalPadding));
+        if (width !== columnWidth) {
+            // Re-measured once the new column width has been applied
+            setColumnWidth(width);
+            return;
+        }
+
+        // Column gap equals the horizontal padding, so each page is exactly clientWidth wide
+        onLayout(Math.max(1, Math.round(el.scrollWidth / el.clientWidth)), !laidOut.current);
+        laidOut.current = true;
+    }, [columnWidth, onLayout]);
+
+    useLayoutEffect(() => {
+        measure();
+    }, [html, layoutKey, measure]);
+
+    useEffect(() => {
+        const el = contentRef.current;
+        if (!el) return;
+
+        // Images change the column count once they load
+        const handleLoad = () => measure();
+        el.addEventListener('load', handleLoad, true);
+        window.addEventListener('resize', measure);
+        return () => {
+            el.removeEventListener('load', handleLoad, true);
+            window.removeEventListener('resize', measure);
+        };
+    }, [measure]);
+
+    useLayoutEffect(() => {
+        const el = contentRef.current;
+        if (el) {
+            el.scrollLeft = page * el.clientWidth;
+        }
+    }, [page, pageCount, columnWidth]);
+
+    const handleClick = (e: React.MouseEvent) => {
+        if (swiped.current) {
+            swiped.current = false;
+            return;
+        }
+        // Don't turn pages while the user is selecting text
+        if (window.getSelection()?.toString()) return;
+
+        const x = e.clientX / window.innerWidth;
+        if (x < TAP_ZONE) {
+            onTurnPage(-1);
+        } else if (x > 1 - TAP_ZONE) {
+            onTurnPage(1);
+        } else {
+            onToggleOverlay();
+        }
+    };
+
+    const handleTouchStart = (e: React.TouchEvent) => {
+        const touch = e.touches[0];
+        touchStart.current = { x: touch.clientX, y: touch.clientY };
+        swiped.current = false;
+    };
+
+    const handleTouchEnd = (e: React.TouchEvent) => {
+        if (!touchStart.current) return;
+        const touch = e.changedTouches[0];
+        const dx = touch.clientX - touchStart.current.x;
+        const dy = touch.clientY - touchStart.current.y;
+        touchStart.current = null;
+
+        if (Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy)) {
+            swiped.current = true;
+            onTurnPage(dx < 0 ? 1 : -1);
+        }
+    };
+
+    return (
+        <Box
+            onClick={handleClick}
+            onTouchStart={handleTouchStart}
+            onTouchEnd={handleTouchEnd}
+            sx={{
+                height: '100vh',
+                overflow: 'hidden',
+                pt: 4,
+                pb: 5,
+                boxSizing: 'border-box',
+                position: 'relative',
+                userSelect: 'text',
+            }}
+        >
+            <div
+                ref={contentRef}
+                className="reader-content reader-paged"
+                style={{ columnWidth: columnWidth ? `${columnWidth}px` : undefined }}
+                dangerouslySetInnerHTML={{ __html: html }}
+            />
+            <Typography
+                variant="caption"
+                sx={{
+                    position: 'absolute',
+                    bottom: 12,
+                    left: 0,
+                    right: 0,
+                    textAlign: 'center',
+                    opacity: 0.6,
+                    pointerEvents: 'none',
+                }}
+            >
+                {page + 1} / {pageCount}
+            </Typography>
+        </Box>
+    );
+}
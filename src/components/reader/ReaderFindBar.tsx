@@ -0,0 +1,79 @@
+import { Paper, InputBase, IconButton, Typography, Tooltip } from '@mui/material';
+import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
+import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
+import CloseIcon from '@mui/icons-material/Close';
+
+interface ReaderFindBarProps {
+    query: string;
+    onQueryChange: (query: string) => void;
+    // Index of the current match (0-based)
+    current: number;
+    count: number;
+    onNext: () => void;
+    onPrev: () => void;
+    onClose: () => void;
+}
+
+/**
+ * Find-in-chapter bar shown below the reader app bar.
+ */
+export default function ReaderFindBar({ query, onQueryChange, current, count, onNext, onPrev, onClose }: ReaderFindBarProps) {
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            if (e.shiftKey) onPrev();
+            else onNext();
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        }
+    };
+
+    return (
+        <Paper
+            elevation={6}
+            sx={{
+                position: 'fixed',
+                top: 72,
+                right: 16,
+                zIndex: 1200,
+                display: 'flex',
+                alignItems: 'center',
+                pl: 1.5,
+                pr: 0.5,
+                py: 0.25,
+                gap: 0.5,
+            }}
+        >
+            <InputBase
+                autoFocus
+                placeholder="Find in chapter"
+                value={query}
+                onChange={(e) => onQueryChange(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onFocus={(e) => e.target.select()}
+                sx={{ width: 180 }}
+            />
+            <Typography variant="caption" color="text.secondary" sx={{ minWidth: 48, textAlign: 'right' }}>
+                {query.trim() ? `${count ? current + 1 : 0}/${count}` : ''}
+            </Typography>
+            <Tooltip title="Previous match (Shift+Enter)">
+                <span>
+                    <IconButton size="small" onClick={onPrev} disabled={count === 0}>
+                        <KeyboardArrowUpIcon fontSize="small" />
+                    </IconButton>
+                </span>
+            </Tooltip>
+            <Tooltip title="Next match (Enter)">
+                <span>
+                    <IconButton size="small" onClick={onNext} disabled={count === 0}>
+                        <KeyboardArrowDownIcon fontSize="small" />
+                    </IconButton>
+                </span>
+            </Tooltip>
+            <IconButton size="small" onClick={onClose}>
+                <CloseIcon fontSize="small" />
+            </IconButton>
+        </Paper>
+    );
+}
@@ -0,0 +1,55 @@
+/**
+ * Reader Profile Menu Component
+ *
+ * App bar button for switching between saved reader profiles.
+ */
+
+import { useState } from 'react';
+import { IconButton, Tooltip, Menu, MenuItem, ListItemIcon, ListItemText } from '@mui/material';
+import PaletteIcon from '@mui/icons-material/Palette';
+import CheckIcon from '@mui/icons-material/Check';
+import { getProfileValues, matchesProfile } from '../../utils/readerProfiles';
+import type { ReaderProfile, ReaderProfileValues } from '../../utils/readerProfiles';
+
+interface Props {
+    profiles: ReaderProfile[];
+    current: ReaderProfileValues;
+    onSelect: (values: ReaderProfileValues) => void;
+}
+
+export default function ReaderProfileMenu({ profiles, current, onSelect }: Props) {
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+    if (profiles.length === 0) return null;
+
+    return (
+        <>
+            <Tooltip title="Reader Profiles">
+                <IconButton color="inherit" onClick={(e) => setAnchorEl(e.currentTarget)}>
+                    <PaletteIcon />
+                </IconButton>
+            </Tooltip>
+            <Menu anchorEl={anchorEl} open={!!anchorEl} onClose={() => setAnchorEl(null)}>
+                {profiles.map((profile) => {
+                    const active = matchesProfile(current, profile);
+                    return (
+                        <MenuItem
+                            key={profile.id}
+                            selected={active}
+                            onClick={() => {
+                                onSelect(getProfileValues(profile));
+                                setAnchorEl(null);
+                            }}
+                        >
+                            <ListItemIcon>{active && <CheckIcon fontSize="small" />}</ListItemIcon>
+                            <ListItemText
+                                primary={profile.name}
+                                slotProps={{ primary: { sx: { fontFamily: profile.fontFamily } } }}
+                            />
+                        </MenuItem>
+                    );
+                })}
+            </Menu>
+        </>
+    );
+}
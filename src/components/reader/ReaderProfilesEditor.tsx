@@ -0,0 +1,134 @@
+/**
+ * Reader Profiles Editor Component
+ *
+ * Saved appearance profiles in the settings panel:
+ * - Apply a profile with one tap
+ * - Save the current look as a new profile, delete profiles
+ * - Export/import profiles as JSON
+ */
+
+import { useState } from 'react';
+import { Box, Typography, Chip, TextField, Button, Alert } from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import UploadIcon from '@mui/icons-material/Upload';
+import {
+    createProfile,
+    exportProfiles,
+    getProfileValues,
+    matchesProfile,
+    mergeProfiles,
+    parseProfilesFile,
+    saveProfiles,
+} from '../../utils/readerProfiles';
+import type { ReaderProfile, ReaderProfileValues } from '../../utils/readerProfiles';
+
+interface Props {
+    profiles: ReaderProfile[];
+    current: ReaderProfileValues;
+    onApply: (values: ReaderProfileValues) => void;
+    onProfilesChange: (profiles: ReaderProfile[]) => void;
+}
+
+export default function ReaderProfilesEditor({ profiles, current, onApply, onProfilesChange }: Props) {
+    const [name, setName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const updateProfiles = async (next: ReaderProfile[]) => {
+        try {
+            await saveProfiles(next);
+            onProfilesChange(next);
+            setError(null);
+        } catch (e) {
+            console.error('Failed to save reader profiles:', e);
+            setError('Failed to save profiles');
+        }
+    };
+
+    const handleSaveCurrent = () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        // Saving under an existing name updates that profile
+        updateProfiles(mergeProfiles(profiles, [createProfile(trimmed, current)]));
+        setName('');
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            try {
+                const imported = parseProfilesFile(event.target?.result as string);
+                updateProfiles(mergeProfiles(profiles, imported));
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Invalid profiles file');
+            }
+        };
+        reader.readAsText(file);
+    };
+
+    return (
+        <Box>
+            {error && (
+                <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 1 }}>
+                    {error}
+                </Alert>
+            )}
+
+            {profiles.length === 0 ? (
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                    No saved profiles yet.
+                </Typography>
+            ) : (
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+                    {profiles.map((profile) => (
+                        <Chip
+                            key={profile.id}
+                            label={profile.name}
+                            size="small"
+                            color={matchesProfile(current, profile) ? 'primary' : 'default'}
+                            onClick={() => onApply(getProfileValues(profile))}
+                            onDelete={() => updateProfiles(profiles.filter((p) => p.id !== profile.id))}
+                            sx={{
+                                '& .MuiChip-label': { fontFamily: profile.fontFamily },
+                                borderLeft: '12px solid',
+                                borderLeftColor: profile.backgroundColor,
+                            }}
+                        />
+                    ))}
+                </Box>
+            )}
+
+            <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+                <TextField
+                    size="small"
+                    placeholder="Profile name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSaveCurrent()}
+                    sx={{ flex: 1 }}
+                />
+                <Button size="small" variant="outlined" onClick={handleSaveCurrent} disabled={!name.trim()}>
+                    Save
+                </Button>
+            </Box>
+
+            <Box sx={{ display: 'flex', gap: 1 }}>
+                <Button
+                    size="small"
+                    startIcon={<DownloadIcon />}
+                    onClick={() => exportProfiles(profiles)}
+                    disabled={profiles.length === 0}
+                >
+                    Export
+                </Button>
+                <Button size="small" startIcon={<UploadIcon />} component="label">
+                    Import
+                    <input type="file" hidden accept=".json" onChange={handleImport} />
+                </Button>
+            </Box>
+        </Box>
+    );
+}
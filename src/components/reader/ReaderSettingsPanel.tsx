@@ -2,10 +2,16 @@
  * Reader Settings Panel Component
  * 
  * Slide-out panel for customizing reading experience:
+ * - Global settings or per-novel overrides
+ * - Reading mode (scroll / paged / continuous)
  * - Font family, size, line height
- * - Theme/colors
+ * - Theme/colors and saved profiles
  * - Width and alignment
+ * - Auto-scroll speed (px/s or words per minute)
+ * - Text-to-speech voice, rate and pitch
  * - Custom CSS
+ * - Text replacement rules
+ * - Trusted (unsanitized) rendering for the current source
  */
 
 import { useState, useEffect } from 'react';
@@ -25,14 +31,36 @@ import {
     TextField,
     Button,
     Tooltip,
+    Chip,
+    FormControlLabel,
+    Switch,
 } from '@mui/material';
 import CloseIcon from '@mui/icons-material/Close';
 import FormatAlignLeftIcon from '@mui/icons-material/FormatAlignLeft';
 import FormatAlignCenterIcon from '@mui/icons-material/FormatAlignCenter';
 import FormatAlignJustifyIcon from '@mui/icons-material/FormatAlignJustify';
+import SwapVertIcon from '@mui/icons-material/SwapVert';
+import AutoStoriesIcon from '@mui/icons-material/AutoStories';
+import ViewStreamIcon from '@mui/icons-material/ViewStream';
 import axios from 'axios';
+import { isSpeechSupported, useSpeechVoices } from '../../hooks/useTextToSpeech';
+import { autoScrollRanges } from '../../hooks/useAutoScroll';
+import ReplacementRulesEditor from './ReplacementRulesEditor';
+import ReaderProfilesEditor from './ReaderProfilesEditor';
+import type { ReaderProfile } from '../../utils/readerProfiles';
+import type { ReplacementRule } from '../../utils/replacements';
+
+export type ReadingMode = 'scroll' | 'paged' | 'continuous';
+
+export type SettingsScope = 'global' | 'novel';
+
+export type AutoScrollUnit = 'px' | 'wpm';
+
+// Values a novel has set differently from the global settings
+export type ReaderSettingsOverrides = Partial<ReaderSettings>;
 
 export interface ReaderSettings {
+    readingMode: ReadingMode;
     fontFamily: string;
     fontSize: number;
     lineHeight: number;
@@ -42,9 +70,18 @@ export interface ReaderSettings {
     textColor: string;
     padding: number;
     customCSS: string;
+    ttsVoice: string;
+    ttsRate: number;
+    ttsPitch: number;
+    autoScrollUnit: AutoScrollUnit;
+    autoScrollSpeed: number;
+    autoScrollWpm: number;
+    autoScrollNextChapter: boolean;
+    autoScrollPauseOnHover: boolean;
 }
 
 const defaultSettings: ReaderSettings = {
+    readingMode: 'scroll',
     fontFamily: 'sans-serif',
     fontSize: 18,
     lineHeight: 1.6,
@@ -54,6 +91,14 @@ const defaultSettings: ReaderSettings = {
     textColor: 'rgba(255,255,255,0.87)',
     padding: 20,
     customCSS: '',
+    ttsVoice: '',
+    ttsRate: 1,
+    ttsPitch: 1,
+    autoScrollUnit: 'px',
+    autoScrollSpeed: 40,
+    autoScrollWpm: 250,
+    autoScrollNextChapter: false,
+    autoScrollPauseOnHover: true,
 };
 
 const fontFamilies = [
@@ -85,25 +130,100 @@ interface Props {
     onClose: () => void;
     settings: ReaderSettings;
     onSettingsChange: (settings: ReaderSettings) => void;
+    // Library novel being read, enables per-novel overrides and replacement rules
+    novelId?: number | null;
+    overrides?: ReaderSettingsOverrides;
+    onOverridesChange?: (overrides: ReaderSettingsOverrides) => void;
+    onReplacementRulesChange?: (rules: ReplacementRule[]) => void;
+    profiles?: ReaderProfile[];
+    onProfilesChange?: (profiles: ReaderProfile[]) => void;
+    sourceTrusted?: boolean;
+    onSourceTrustedChange?: (trusted: boolean) => void;
 }
 
-export default function ReaderSettingsPanel({ open, onClose, settings, onSettingsChange }: Props) {
+export default function ReaderSettingsPanel({
+    open,
+    onClose,
+    settings,
+    onSettingsChange,
+    novelId,
+    overrides = {},
+    onOverridesChange,
+    onReplacementRulesChange,
+    profiles = [],
+    onProfilesChange,
+    sourceTrusted = false,
+    onSourceTrustedChange,
+}: Props) {
     const [localSettings, setLocalSettings] = useState<ReaderSettings>(settings);
+    const [scope, setScope] = useState<SettingsScope>('global');
     const [showCustomCSS, setShowCustomCSS] = useState(false);
+    const [showReplacements, setShowReplacements] = useState(false);
+    const voices = useSpeechVoices();
 
     useEffect(() => {
         setLocalSettings(settings);
     }, [settings]);
 
-    const updateSetting = <K extends keyof ReaderSettings>(key: K, value: ReaderSettings[K]) => {
-        const newSettings = { ...localSettings, [key]: value };
+    const canOverride = !!novelId && !!onOverridesChange;
+    const editingNovel = canOverride && scope === 'novel';
+    // Values shown in the controls for the scope being edited
+    const values: ReaderSettings = editingNovel ? { ...localSettings, ...overrides } : localSettings;
+
+    // Open on the novel's own settings when it already has some
+    const handleEnter = () => {
+        setScope(canOverride && Object.keys(overrides).length > 0 ? 'novel' : 'global');
+    };
+
+    const updateSettings = (patch: Partial<ReaderSettings>) => {
+        if (editingNovel) {
+            onOverridesChange?.({ ...overrides, ...patch });
+            return;
+        }
+        const newSettings = { ...localSettings, ...patch };
         setLocalSettings(newSettings);
         onSettingsChange(newSettings);
     };
 
+    const updateSetting = <K extends keyof ReaderSettings>(key: K, value: ReaderSettings[K]) => {
+        updateSettings({ [key]: value });
+    };
+
+    const isOverridden = (...keys: (keyof ReaderSettings)[]) =>
+        canOverride && keys.some((key) => key in overrides);
+
+    const resetOverride = (...keys: (keyof ReaderSettings)[]) => {
+        const next = { ...overrides };
+        keys.forEach((key) => delete next[key]);
+        onOverridesChange?.(next);
+    };
+
+    // Marks a value this novel overrides; deleting the chip falls back to the global value
+    const renderOverrideChip = (...keys: (keyof ReaderSettings)[]) =>
+        isOverridden(...keys) && (
+            <Chip
+                label="Novel"
+                size="small"
+                color="primary"
+                variant="outlined"
+                onDelete={() => resetOverride(...keys)}
+                sx={{ ml: 1, height: 20 }}
+            />
+        );
+
+    // Saves both scopes: overrides may have been edited or reset before switching back to All Novels
     const saveToServer = async () => {
+        if (canOverride) {
+            try {
+                await axios.post(`/api/settings/reader/novel/${novelId}`, overrides);
+            } catch (e) {
+                console.error('Failed to save novel settings:', e);
+            }
+        }
+
         try {
             await axios.post('/api/settings/reader', {
+                readingMode: localSettings.readingMode,
                 fontFamily: localSettings.fontFamily,
                 fontSize: String(localSettings.fontSize),
                 lineHeight: String(localSettings.lineHeight),
@@ -113,6 +233,14 @@ export default function ReaderSettingsPanel({ open, onClose, settings, onSetting
                 textColor: localSettings.textColor,
                 padding: String(localSettings.padding),
                 customCSS: localSettings.customCSS,
+                ttsVoice: localSettings.ttsVoice,
+                ttsRate: String(localSettings.ttsRate),
+                ttsPitch: String(localSettings.ttsPitch),
+                autoScrollUnit: localSettings.autoScrollUnit,
+                autoScrollSpeed: String(localSettings.autoScrollSpeed),
+                autoScrollWpm: String(localSettings.autoScrollWpm),
+                autoScrollNextChapter: String(localSettings.autoScrollNextChapter),
+                autoScrollPauseOnHover: String(localSettings.autoScrollPauseOnHover),
             });
         } catch (e) {
             console.error('Failed to save settings:', e);
@@ -120,11 +248,14 @@ export default function ReaderSettingsPanel({ open, onClose, settings, onSetting
     };
 
     const applyPreset = (preset: typeof colorPresets[0]) => {
-        updateSetting('backgroundColor', preset.bg);
-        updateSetting('textColor', preset.text);
+        updateSettings({ backgroundColor: preset.bg, textColor: preset.text });
     };
 
     const resetToDefaults = () => {
+        if (editingNovel) {
+            onOverridesChange?.({});
+            return;
+        }
         setLocalSettings(defaultSettings);
         onSettingsChange(defaultSettings);
     };
@@ -137,6 +268,7 @@ export default function ReaderSettingsPanel({ open, onClose, settings, onSetting
             PaperProps={{
                 sx: { width: 320, p: 2, bgcolor: 'background.paper' }
             }}
+            slotProps={{ transition: { onEnter: handleEnter } }}
         >
             <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
                 <Typography variant="h6">Reader Settings</Typography>
@@ -147,11 +279,60 @@ export default function ReaderSettingsPanel({ open, onClose, settings, onSetting
 
             <Divider sx={{ mb: 2 }} />
 
+            {/* Scope */}
+            {canOverride && (
+                <>
+                    <ToggleButtonGroup
+                        value={scope}
+                        exclusive
+                        onChange={(_, value) => value && setScope(value)}
+                        size="small"
+                        fullWidth
+                        sx={{ mb: 1 }}
+                    >
+                        <ToggleButton value="global">All Novels</ToggleButton>
+                        <ToggleButton value="novel">This Novel</ToggleButton>
+                    </ToggleButtonGroup>
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+                        {scope === 'novel'
+                            ? `Changes apply to this novel only. ${Object.keys(overrides).length} value(s) overridden.`
+                            : 'Values marked "Novel" are overridden for this novel.'}
+                    </Typography>
+                </>
+            )}
+
+            {/* Reading Mode */}
+            <Typography variant="body2" gutterBottom>
+                Reading Mode
+                {renderOverrideChip('readingMode')}
+            </Typography>
+            <ToggleButtonGroup
+                value={values.readingMode}
+                exclusive
+                onChange={(_, value) => value && updateSetting('readingMode', value)}
+                size="small"
+                fullWidth
+                sx={{ mb: 2 }}
+            >
+                <ToggleButton value="scroll">
+                    <SwapVertIcon fontSize="small" sx={{ mr: 1 }} />
+                    Scroll
+                </ToggleButton>
+                <ToggleButton value="paged">
+                    <AutoStoriesIcon fontSize="small" sx={{ mr: 1 }} />
+                    Paged
+                </ToggleButton>
+                <ToggleButton value="continuous">
+                    <ViewStreamIcon fontSize="small" sx={{ mr: 1 }} />
+                    Continuous
+                </ToggleButton>
+            </ToggleButtonGroup>
+
             {/* Font Family */}
             <FormControl fullWidth size="small" sx={{ mb: 2 }}>
                 <InputLabel>Font</InputLabel>
                 <Select
-                    value={localSettings.fontFamily}
+                    value={values.fontFamily}
                     label="Font"
                     onChange={(e) => updateSetting('fontFamily', e.target.value)}
                 >
@@ -162,13 +343,20 @@ export default function ReaderSettingsPanel({ open, onClose, settings, onSetting
                     ))}
                 </Select>
             </FormControl>
+            {isOverridden('fontFamily') && (
+                <Box sx={{ mt: -1, mb: 2 }}>
+                    <Typography variant="caption" color="text.secondary">Font</Typography>
+                    {renderOverrideChip('fontFamily')}
+                </Box>
+            )}
 
             {/* Font Size */}
             <Typography variant="body2" gutterBottom>
-                Font Size: {localSettings.fontSize}px
+                Font Size: {values.fontSize}px
+                {renderOverrideChip('fontSize')}
             </Typography>
             <Slider
-                value={localSettings.fontSize}
+                value={values.fontSize}
                 onChange={(_, value) => updateSetting('fontSize', value as number)}
                 min={12}
                 max={32}
@@ -179,10 +367,11 @@ export default function ReaderSettingsPanel({ open, onClose, settings, onSetting
 
             {/* Line Height */}
             <Typography variant="body2" gutterBottom>
-                Line Height: {localSettings.lineHeight}
+                Line Height: {values.lineHeight}
+                {renderOverrideChip('lineHeight')}
             </Typography>
             <Slider
-                value={localSettings.lineHeight}
+                value={values.lineHeight}
                 onChange={(_, value) => updateSetting('lineHeight', value as number)}
                 min={1.2}
                 max={2.5}
@@ -193,10 +382,11 @@ export default function ReaderSettingsPanel({ open, onClose, settings, onSetting
 
             {/* Max Width */}
             <Typography variant="body2" gutterBottom>
-                Max Width: {localSettings.maxWidth}px
+                Max Width: {values.maxWidth}px
+                {renderOverrideChip('maxWidth')}
             </Typography>
             <Slider
-                value={localSettings.maxWidth}
+                value={values.maxWidth}
                 onChange={(_, value) => updateSetting('maxWidth', value as number)}
                 min={400}
                 max={1200}
@@ -207,10 +397,11 @@ export default function ReaderSettingsPanel({ open, onClose, settings, onSetting
 
             {/* Padding */}
             <Typography variant="body2" gutterBottom>
-                Padding: {localSettings.padding}px
+                Padding: {values.padding}px
+                {renderOverrideChip('padding')}
             </Typography>
             <Slider
-                value={localSettings.padding}
+                value={values.padding}
                 onChange={(_, value) => updateSetting('padding', value as number)}
                 min={0}
                 max={60}
@@ -222,9 +413,10 @@ export default function ReaderSettingsPanel({ open, onClose, settings, onSetting
             {/* Text Alignment */}
             <Typography variant="body2" gutterBottom>
                 Text Alignment
+                {renderOverrideChip('textAlign')}
             </Typography>
             <ToggleButtonGroup
-                value={localSettings.textAlign}
+                value={values.textAlign}
                 exclusive
                 onChange={(_, value) => value && updateSetting('textAlign', value)}
                 size="small"
@@ -252,6 +444,7 @@ export default function ReaderSettingsPanel({ open, onClose, settings, onSetting
             {/* Color Theme Presets */}
             <Typography variant="body2" gutterBottom>
                 Color Theme
+                {renderOverrideChip('backgroundColor', 'textColor')}
             </Typography>
             <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
                 {colorPresets.map((preset) => (
@@ -263,7 +456,7 @@ export default function ReaderSettingsPanel({ open, onClose, settings, onSetting
                                 height: 32,
                                 bgcolor: preset.bg,
                                 border: '2px solid',
-                                borderColor: localSettings.backgroundColor === preset.bg ? 'primary.main' : 'divider',
+                                borderColor: values.backgroundColor === preset.bg ? 'primary.main' : 'divider',
                                 borderRadius: 1,
                                 cursor: 'pointer',
                                 display: 'flex',
@@ -280,8 +473,125 @@ export default function ReaderSettingsPanel({ open, onClose, settings, onSetting
                 ))}
             </Box>
 
+            {/* Saved Profiles */}
+            {onProfilesChange && (
+                <>
+                    <Typography variant="body2" gutterBottom>
+                        Profiles
+                    </Typography>
+                    <ReaderProfilesEditor
+                        profiles={profiles}
+                        current={values}
+                        onApply={updateSettings}
+                        onProfilesChange={onProfilesChange}
+                    />
+                </>
+            )}
+
+            <Divider sx={{ my: 2 }} />
+
+            {/* Auto-scroll */}
+            <Typography variant="body2" gutterBottom>
+                Auto-scroll Speed: {values.autoScrollUnit === 'wpm'
+                    ? `${values.autoScrollWpm} words/min`
+                    : `${values.autoScrollSpeed} px/s`}
+                {renderOverrideChip('autoScrollUnit', 'autoScrollSpeed', 'autoScrollWpm')}
+            </Typography>
+            <ToggleButtonGroup
+                value={values.autoScrollUnit}
+                exclusive
+                onChange={(_, value) => value && updateSetting('autoScrollUnit', value)}
+                size="small"
+                fullWidth
+                sx={{ mb: 1 }}
+            >
+                <ToggleButton value="px">Pixels / sec</ToggleButton>
+                <ToggleButton value="wpm">Words / min</ToggleButton>
+            </ToggleButtonGroup>
+            <Slider
+                value={values.autoScrollUnit === 'wpm' ? values.autoScrollWpm : values.autoScrollSpeed}
+                onChange={(_, value) => updateSetting(
+                    values.autoScrollUnit === 'wpm' ? 'autoScrollWpm' : 'autoScrollSpeed',
+                    value as number
+                )}
+                {...autoScrollRanges[values.autoScrollUnit]}
+                valueLabelDisplay="auto"
+            />
+            <FormControlLabel
+                control={
+                    <Switch
+                        checked={values.autoScrollNextChapter}
+                        onChange={(e) => updateSetting('autoScrollNextChapter', e.target.checked)}
+                    />
+                }
+                label={<>Continue to next chapter{renderOverrideChip('autoScrollNextChapter')}</>}
+                sx={{ display: 'flex' }}
+            />
+            <FormControlLabel
+                control={
+                    <Switch
+                        checked={values.autoScrollPauseOnHover}
+                        onChange={(e) => updateSetting('autoScrollPauseOnHover', e.target.checked)}
+                    />
+                }
+                label={<>Pause while hovering the text{renderOverrideChip('autoScrollPauseOnHover')}</>}
+                sx={{ display: 'flex', mb: 1 }}
+            />
+
             <Divider sx={{ my: 2 }} />
 
+            {/* Text-to-Speech (device-wide, not per novel) */}
+            {isSpeechSupported() && !editingNovel && (
+                <>
+                    <Typography variant="body2" gutterBottom>
+                        Text-to-Speech
+                    </Typography>
+                    <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+                        <InputLabel>Voice</InputLabel>
+                        <Select
+                            value={values.ttsVoice}
+                            label="Voice"
+                            onChange={(e) => updateSetting('ttsVoice', e.target.value)}
+                        >
+                            <MenuItem value="">System Default</MenuItem>
+                            {voices.map((voice) => (
+                                <MenuItem key={voice.voiceURI} value={voice.voiceURI}>
+                                    {voice.name} ({voice.lang})
+                                </MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+
+                    <Typography variant="body2" gutterBottom>
+                        Speech Rate: {values.ttsRate}x
+                    </Typography>
+                    <Slider
+                        value={values.ttsRate}
+                        onChange={(_, value) => updateSetting('ttsRate', value as number)}
+                        min={0.5}
+                        max={3}
+                        step={0.1}
+                        valueLabelDisplay="auto"
+                        sx={{ mb: 2 }}
+                    />
+
+                    <Typography variant="body2" gutterBottom>
+                        Pitch: {values.ttsPitch}
+                    </Typography>
+                    <Slider
+                        value={values.ttsPitch}
+                        onChange={(_, value) => updateSetting('ttsPitch', value as number)}
+                        min={0.5}
+                        max={2}
+                        step={0.1}
+                        valueLabelDisplay="auto"
+                        sx={{ mb: 2 }}
+                    />
+
+                    <Divider sx={{ my: 2 }} />
+                </>
+            )}
+
             {/* Custom CSS */}
             <Button
                 variant="text"
@@ -291,6 +601,7 @@ export default function ReaderSettingsPanel({ open, onClose, settings, onSetting
             >
                 {showCustomCSS ? 'Hide' : 'Show'} Custom CSS
             </Button>
+            {renderOverrideChip('customCSS')}
             {showCustomCSS && (
                 <TextField
                     multiline
@@ -298,12 +609,46 @@ export default function ReaderSettingsPanel({ open, onClose, settings, onSetting
                     fullWidth
                     size="small"
                     placeholder=".reader-content { ... }"
-                    value={localSettings.customCSS}
+                    value={values.customCSS}
                     onChange={(e) => updateSetting('customCSS', e.target.value)}
                     sx={{ mb: 2, fontFamily: 'monospace' }}
                 />
             )}
 
+            {/* Text Replacements */}
+            <Button
+                variant="text"
+                size="small"
+                onClick={() => setShowReplacements(!showReplacements)}
+                sx={{ mb: 1, display: 'block' }}
+            >
+                {showReplacements ? 'Hide' : 'Show'} Text Replacements
+            </Button>
+            {showReplacements && (
+                <Box sx={{ mb: 2 }}>
+                    <ReplacementRulesEditor novelId={novelId ?? null} onChange={onReplacementRulesChange} />
+                </Box>
+            )}
+
+            {/* Source */}
+            {onSourceTrustedChange && (
+                <>
+                    <FormControlLabel
+                        control={
+                            <Switch
+                                size="small"
+                                checked={sourceTrusted}
+                                onChange={(e) => onSourceTrustedChange(e.target.checked)}
+                            />
+                        }
+                        label={<Typography variant="body2">Trust this source</Typography>}
+                    />
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                        Renders the source's HTML as-is, including scripts and trackers.
+                    </Typography>
+                </>
+            )}
+
             <Divider sx={{ my: 2 }} />
 
             {/* Actions */}
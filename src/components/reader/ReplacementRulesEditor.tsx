@@ -0,0 +1,249 @@
+/**
+ * Replacement Rules Editor Component
+ *
+ * List and edit text replacement rules:
+ * - Plain text or regex patterns, optional case sensitivity
+ * - Global or per-novel scope
+ * - Enable/disable without deleting
+ */
+
+import { useState, useEffect } from 'react';
+import {
+    Box,
+    Typography,
+    TextField,
+    Button,
+    IconButton,
+    Tooltip,
+    Switch,
+    Chip,
+    List,
+    ListItem,
+    ListItemText,
+    FormControlLabel,
+    Checkbox,
+    ToggleButtonGroup,
+    ToggleButton,
+} from '@mui/material';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import axios from 'axios';
+import { getRuleError } from '../../utils/replacements';
+import type { ReplacementRule, ReplacementRuleDraft } from '../../utils/replacements';
+
+interface Props {
+    // When set, only global rules and rules of this novel are shown
+    novelId?: number | null;
+    onChange?: (rules: ReplacementRule[]) => void;
+}
+
+const emptyDraft = (novelId: number | null): ReplacementRuleDraft => ({
+    novelId,
+    pattern: '',
+    replacement: '',
+    isRegex: false,
+    caseSensitive: false,
+    enabled: true,
+});
+
+export default function ReplacementRulesEditor({ novelId, onChange }: Props) {
+    const [rules, setRules] = useState<ReplacementRule[]>([]);
+    const [draft, setDraft] = useState<ReplacementRuleDraft>(emptyDraft(novelId ?? null));
+    const [editingId, setEditingId] = useState<number | null>(null);
+
+    useEffect(() => {
+        axios.get('/api/replacements')
+            .then((res) => setRules(res.data || []))
+            .catch((e) => console.error('Failed to fetch replacement rules:', e));
+    }, []);
+
+    const updateRules = (next: ReplacementRule[]) => {
+        setRules(next);
+        onChange?.(next);
+    };
+
+    const visibleRules = novelId !== undefined
+        ? rules.filter((r) => r.novelId === null || r.novelId === novelId)
+        : rules;
+    const draftError = draft.pattern ? getRuleError(draft) : null;
+
+    const resetDraft = () => {
+        setDraft(emptyDraft(novelId ?? null));
+        setEditingId(null);
+    };
+
+    const handleSave = async () => {
+        if (getRuleError(draft)) return;
+        try {
+            if (editingId !== null) {
+                await axios.put(`/api/replacements/${editingId}`, draft);
+                updateRules(rules.map((r) => (r.id === editingId ? { ...r, ...draft } : r)));
+            } else {
+                const res = await axios.post('/api/replacements', draft);
+                updateRules([...rules, res.data]);
+            }
+            resetDraft();
+        } catch (e) {
+            console.error('Failed to save replacement rule:', e);
+        }
+    };
+
+    const handleToggle = async (rule: ReplacementRule) => {
+        try {
+            await axios.put(`/api/replacements/${rule.id}`, { enabled: !rule.enabled });
+            updateRules(rules.map((r) => (r.id === rule.id ? { ...r, enabled: !r.enabled } : r)));
+        } catch (e) {
+            console.error('Failed to update replacement rule:', e);
+        }
+    };
+
+    const handleDelete = async (id: number) => {
+        try {
+            await axios.delete(`/api/replacements/${id}`);
+            updateRules(rules.filter((r) => r.id !== id));
+            if (editingId === id) resetDraft();
+        } catch (e) {
+            console.error('Failed to delete replacement rule:', e);
+        }
+    };
+
+    const startEdit = (rule: ReplacementRule) => {
+        setEditingId(rule.id);
+        setDraft({
+            novelId: rule.novelId,
+            pattern: rule.pattern,
+            replacement: rule.replacement,
+            isRegex: rule.isRegex,
+            caseSensitive: rule.caseSensitive,
+            enabled: rule.enabled,
+        });
+    };
+
+    return (
+        <Box>
+            {visibleRules.length === 0 ? (
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    No replacement rules yet.
+                </Typography>
+            ) : (
+                <List dense disablePadding sx={{ mb: 2 }}>
+                    {visibleRules.map((rule) => (
+                        <ListItem
+                            key={rule.id}
+                            divider
+                            disableGutters
+                            secondaryAction={
+                                <Box>
+                                    <Tooltip title="Edit">
+                                        <IconButton size="small" onClick={() => startEdit(rule)}>
+                                            <EditIcon fontSize="small" />
+                                        </IconButton>
+                                    </Tooltip>
+                                    <Tooltip title="Delete">
+                                        <IconButton size="small" edge="end" onClick={() => handleDelete(rule.id)}>
+                                            <DeleteIcon fontSize="small" />
+                                        </IconButton>
+                                    </Tooltip>
+                                </Box>
+                            }
+                            sx={{ pr: 10, opacity: rule.enabled ? 1 : 0.5 }}
+                        >
+                            <Switch size="small" checked={rule.enabled} onChange={() => handleToggle(rule)} />
+                            <ListItemText
+                                primary={
+                                    <Box component="span" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                                        {rule.pattern} → {rule.replacement || '∅'}
+                                    </Box>
+                                }
+                                secondary={
+                                    <Box component="span" sx={{ display: 'flex', gap: 0.5, mt: 0.5, flexWrap: 'wrap' }}>
+                                        <Chip
+                                            size="small"
+                                            label={rule.novelId === null ? 'Global' : rule.novelName || 'This novel'}
+                                            color={rule.novelId === null ? 'default' : 'primary'}
+                                            variant="outlined"
+                                        />
+                                        {rule.isRegex && <Chip size="small" label="Regex" variant="outlined" />}
+                                        {rule.caseSensitive && <Chip size="small" label="Aa" variant="outlined" />}
+                                    </Box>
+                                }
+                                slotProps={{ secondary: { component: 'div' } }}
+                            />
+                        </ListItem>
+                    ))}
+                </List>
+            )}
+
+            <Typography variant="body2" gutterBottom>
+                {editingId !== null ? 'Edit Rule' : 'Add Rule'}
+            </Typography>
+            <TextField
+                fullWidth
+                size="small"
+                label={draft.isRegex ? 'Regular expression' : 'Find'}
+                value={draft.pattern}
+                onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                error={!!draftError}
+                helperText={draftError}
+                sx={{ mb: 1, '& input': { fontFamily: draft.isRegex ? 'monospace' : undefined } }}
+            />
+            <TextField
+                fullWidth
+                size="small"
+                label="Replace with"
+                placeholder={draft.isRegex ? 'Use $1, $2 for groups' : ''}
+                value={draft.replacement}
+                onChange={(e) => setDraft({ ...draft, replacement: e.target.value })}
+                sx={{ mb: 1 }}
+            />
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 1 }}>
+                <FormControlLabel
+                    control={
+                        <Checkbox
+                            size="small"
+                            checked={draft.isRegex}
+                            onChange={(e) => setDraft({ ...draft, isRegex: e.target.checked })}
+                        />
+                    }
+                    label="Regex"
+                />
+                <FormControlLabel
+                    control={
+                        <Checkbox
+                            size="small"
+                            checked={draft.caseSensitive}
+                            onChange={(e) => setDraft({ ...draft, caseSensitive: e.target.checked })}
+                        />
+                    }
+                    label="Match case"
+                />
+                {novelId !== undefined && novelId !== null && (
+                    <ToggleButtonGroup
+                        size="small"
+                        exclusive
+                        value={draft.novelId === null ? 'global' : 'novel'}
+                        onChange={(_, v) => v && setDraft({ ...draft, novelId: v === 'global' ? null : novelId })}
+                    >
+                        <ToggleButton value="novel">This novel</ToggleButton>
+                        <ToggleButton value="global">Global</ToggleButton>
+                    </ToggleButtonGroup>
+                )}
+            </Box>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+                {editingId !== null && (
+                    <Button size="small" onClick={resetDraft}>
+                        Cancel
+                    </Button>
+                )}
+                <Button
+                    size="small"
+                    variant="contained"
+                    onClick={handleSave}
+                    disabled={!!getRuleError(draft)}
+                >
+                    {editingId !== null ? 'Save Rule' : 'Add Rule'}
+                </Button>
+            </Box>
+        </Box>
+    );
+}
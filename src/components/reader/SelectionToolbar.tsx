@@ -0,0 +1,66 @@
+/**
+ * Selection Toolbar Component
+ *
+ * Floating toolbar shown above a text selection in the reader:
+ * - One-tap highlight in each colour
+ * - Highlight with a note
+ * - Bookmark the paragraph containing the selection
+ */
+
+import { Popper, Paper, Box, IconButton, Tooltip, Divider } from '@mui/material';
+import NoteAddIcon from '@mui/icons-material/NoteAdd';
+import BookmarkAddIcon from '@mui/icons-material/BookmarkAdd';
+import { annotationColors } from '../../utils/annotations';
+import type { AnnotationColor } from '../../utils/annotations';
+
+interface Props {
+    rect: DOMRect | null;
+    onHighlight: (color: AnnotationColor) => void;
+    onAddNote: () => void;
+    onBookmark: () => void;
+}
+
+export default function SelectionToolbar({ rect, onHighlight, onAddNote, onBookmark }: Props) {
+    return (
+        <Popper
+            open={!!rect}
+            anchorEl={rect ? { getBoundingClientRect: () => rect } : null}
+            placement="top"
+            sx={{ zIndex: 1300 }}
+        >
+            {/* Keep the selection alive while clicking toolbar buttons */}
+            <Paper
+                elevation={6}
+                onMouseDown={(e) => e.preventDefault()}
+                sx={{ display: 'flex', alignItems: 'center', gap: 0.5, px: 1, py: 0.5, mb: 1 }}
+            >
+                {(Object.keys(annotationColors) as AnnotationColor[]).map((color) => (
+                    <Tooltip key={color} title={`Highlight ${color}`}>
+                        <Box
+                            onClick={() => onHighlight(color)}
+                            sx={{
+                                width: 22,
+                                height: 22,
+                                borderRadius: '50%',
+                                bgcolor: annotationColors[color],
+                                cursor: 'pointer',
+                                '&:hover': { outline: '2px solid', outlineColor: 'primary.main' },
+                            }}
+                        />
+                    </Tooltip>
+                ))}
+                <Divider orientation="vertical" flexItem sx={{ mx: 0.5 }} />
+                <Tooltip title="Highlight with Note">
+                    <IconButton size="small" onClick={onAddNote}>
+                        <NoteAddIcon fontSize="small" />
+                    </IconButton>
+                </Tooltip>
+                <Tooltip title="Bookmark Paragraph">
+                    <IconButton size="small" onClick={onBookmark}>
+                        <BookmarkAddIcon fontSize="small" />
+                    </IconButton>
+                </Tooltip>
+            </Paper>
+        </Popper>
+    );
+}
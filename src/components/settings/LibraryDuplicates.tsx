@@ -0,0 +1,141 @@
+/**
+ * Library Duplicates - find and clean up novels added from more than one source
+ *
+ * Features:
+ * - Scan the library for clusters of likely duplicates (title + author)
+ * - Merge a cluster into the chosen entry (read state, annotations, categories, trackers)
+ * - Remove single entries
+ */
+
+import { useState } from 'react';
+import {
+    Typography, Box, Paper, List, ListItem, ListItemButton, ListItemAvatar, ListItemText,
+    Avatar, Radio, IconButton, Button, CircularProgress, Tooltip, Alert
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import MergeIcon from '@mui/icons-material/MergeType';
+import axios from 'axios';
+import { findDuplicateClusters, loadLibraryNovels, mergeDuplicates } from '../../utils/duplicates';
+import type { DuplicateNovel } from '../../utils/duplicates';
+
+export default function LibraryDuplicates() {
+    const [clusters, setClusters] = useState<DuplicateNovel[][] | null>(null);
+    const [scanning, setScanning] = useState(false);
+    // Entry to keep per cluster, keyed by the cluster's first novel id
+    const [keep, setKeep] = useState<Record<number, number>>({});
+    const [working, setWorking] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleScan = async () => {
+        setScanning(true);
+        setError(null);
+        try {
+            const found = findDuplicateClusters(await loadLibraryNovels());
+            setClusters(found);
+            // Default to the entry with the most chapters read
+            setKeep(Object.fromEntries(found.map((cluster) => {
+                const best = [...cluster].sort((a, b) => (b.chaptersRead || 0) - (a.chaptersRead || 0))[0];
+                return [cluster[0].id, best.id];
+            })));
+        } catch (e) {
+            console.error('Failed to scan for duplicates:', e);
+            setError('Failed to load the library.');
+        } finally {
+            setScanning(false);
+        }
+    };
+
+    const handleMerge = async (cluster: DuplicateNovel[]) => {
+        const kept = cluster.find((n) => n.id === keep[cluster[0].id]) || cluster[0];
+        if (!confirm(`Merge ${cluster.length - 1} entr${cluster.length === 2 ? 'y' : 'ies'} into "${kept.name}" (${kept.pluginId})? The others will be removed.`)) return;
+        setWorking(cluster[0].id);
+        setError(null);
+        try {
+            await mergeDuplicates(kept, cluster.filter((n) => n.id !== kept.id));
+            await handleScan();
+        } catch (e) {
+            console.error('Failed to merge duplicates:', e);
+            setError('Merge failed. Some entries may not have been merged.');
+        } finally {
+            setWorking(null);
+        }
+    };
+
+    const handleRemove = async (cluster: DuplicateNovel[], novel: DuplicateNovel) => {
+        if (!confirm(`Remove "${novel.name}" (${novel.pluginId}) from the library?`)) return;
+        setWorking(cluster[0].id);
+        try {
+            await axios.delete(`/api/library/${novel.id}`);
+            await handleScan();
+        } catch (e) {
+            console.error('Failed to remove novel:', e);
+            setError('Failed to remove novel.');
+        } finally {
+            setWorking(null);
+        }
+    };
+
+    return (
+        <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+                <Button variant="outlined" onClick={handleScan} disabled={scanning}>
+                    {clusters ? 'Scan Again' : 'Scan Library'}
+                </Button>
+                {scanning && <CircularProgress size={20} />}
+                {clusters && !scanning && (
+                    <Typography variant="body2" color="text.secondary">
+                        {clusters.length === 0 ? 'No duplicates found.' : `${clusters.length} possible duplicate group(s)`}
+                    </Typography>
+                )}
+            </Box>
+
+            {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+            {clusters?.map((cluster) => (
+                <Paper key={cluster[0].id} variant="outlined" sx={{ mb: 2 }}>
+                    <List dense disablePadding>
+                        {cluster.map((novel) => (
+                            <ListItem
+                                key={novel.id}
+                                divider
+                                disablePadding
+                                secondaryAction={
+                                    <Tooltip title="Remove from library">
+                                        <IconButton edge="end" disabled={working !== null} onClick={() => handleRemove(cluster, novel)}>
+                                            <DeleteIcon />
+                                        </IconButton>
+                                    </Tooltip>
+                                }
+                            >
+                                <ListItemButton onClick={() => setKeep({ ...keep, [cluster[0].id]: novel.id })}>
+                                    <Radio edge="start" checked={keep[cluster[0].id] === novel.id} tabIndex={-1} disableRipple />
+                                    <ListItemAvatar>
+                                        <Avatar variant="rounded" src={novel.cover?.startsWith('http') ? `/api/image-proxy?url=${encodeURIComponent(novel.cover)}` : novel.cover} />
+                                    </ListItemAvatar>
+                                    <ListItemText
+                                        primary={novel.name}
+                                        secondary={[
+                                            novel.pluginId,
+                                            novel.author,
+                                            novel.totalChapters !== undefined && `${novel.chaptersRead || 0}/${novel.totalChapters} read`,
+                                        ].filter(Boolean).join(' · ')}
+                                    />
+                                </ListItemButton>
+                            </ListItem>
+                        ))}
+                    </List>
+                    <Box sx={{ display: 'flex', justifyContent: 'flex-end', p: 1 }}>
+                        <Button
+                            size="small"
+                            startIcon={working === cluster[0].id ? <CircularProgress size={16} /> : <MergeIcon />}
+                            disabled={working !== null}
+                            onClick={() => handleMerge(cluster)}
+                        >
+                            Merge into selected
+                        </Button>
+                    </Box>
+                </Paper>
+            ))}
+        </Box>
+    );
+}
@@ -81,11 +81,18 @@ export default function SettingsData() {
             setBackupProgress('Creating backup...');
 
             // Get all data
-            const [libraryRes, settingsRes, historyRes, categoriesRes] = await Promise.all([
+            const [libraryRes, settingsRes, historyRes, categoriesRes, replacementRules] = await Promise.all([
                 axios.get('/api/library'),
                 axios.get('/api/settings'),
                 axios.get('/api/history'),
                 axios.get('/api/categories'),
+                // Older servers have no replacement rules; back up the rest anyway
+                axios.get('/api/replacements')
+                    .then((res) => res.data || [])
+                    .catch((e) => {
+                        console.error('Failed to fetch replacement rules:', e);
+                        return [];
+                    }),
             ]);
 
             const backupData = {
@@ -95,6 +102,7 @@ export default function SettingsData() {
                 settings: settingsRes.data,
                 history: historyRes.data,
                 categories: categoriesRes.data,
+                replacementRules,
             };
 
             const dataStr = 'data:text/json;charset=utf-8,' + encodeURIComponent(JSON.stringify(backupData, null, 2));
@@ -0,0 +1,186 @@
+/**
+ * Settings Keyboard - keyboard shortcut editor
+ *
+ * Features:
+ * - Reader and global shortcuts, several bindings per action
+ * - Record a key combo or a two-key sequence (e.g. G then L)
+ * - Conflict detection (including keys shared with another's sequence) and reset to defaults
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import {
+    Typography, Box, Paper, Chip, Button, IconButton, Tooltip, Alert,
+    Table, TableBody, TableRow, TableCell
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import {
+    defaultKeymap,
+    eventToKey,
+    findBindingConflict,
+    formatBinding,
+    keyActions,
+    loadKeymap,
+    saveKeymap,
+    SEQUENCE_TIMEOUT,
+} from '../../utils/keymap';
+import type { KeyAction, KeyScope, Keymap } from '../../utils/keymap';
+
+const sections: { scope: KeyScope; title: string }[] = [
+    { scope: 'reader', title: 'Reader' },
+    { scope: 'global', title: 'Global' },
+];
+
+export default function SettingsKeyboard() {
+    const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+    const [recording, setRecording] = useState<KeyAction | null>(null);
+    const [recorded, setRecorded] = useState<string[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const updateKeymap = (next: Keymap) => {
+        setKeymap(next);
+        saveKeymap(next);
+    };
+
+    const addBinding = (action: KeyAction, binding: string) => {
+        const conflict = findBindingConflict(keymap, binding, action);
+        if (conflict) {
+            setError(conflict.binding === binding
+                ? `${formatBinding(binding)} is already used for "${conflict.label}"`
+                : `${formatBinding(binding)} clashes with ${formatBinding(conflict.binding)} for "${conflict.label}"`);
+            return;
+        }
+        if (!keymap[action].includes(binding)) {
+            updateKeymap({ ...keymap, [action]: [...keymap[action], binding] });
+        }
+        setError(null);
+    };
+
+    // The recording listener always adds through the latest keymap
+    const addBindingRef = useRef(addBinding);
+    useEffect(() => {
+        addBindingRef.current = addBinding;
+    });
+
+    const removeBinding = (action: KeyAction, binding: string) => {
+        updateKeymap({ ...keymap, [action]: keymap[action].filter((b) => b !== binding) });
+    };
+
+    // Capture keys while recording; runs before other shortcut listeners so they don't fire
+    useEffect(() => {
+        if (!recording) return;
+
+        let keys: string[] = [];
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const finish = () => {
+            clearTimeout(timer);
+            if (keys.length > 0) addBindingRef.current(recording, keys.join(' '));
+            setRecording(null);
+            setRecorded([]);
+        };
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            const key = eventToKey(e);
+            if (!key) return;
+            if (key === 'Escape' && keys.length === 0) {
+                setRecording(null);
+                return;
+            }
+
+            keys = [...keys, key];
+            setRecorded(keys);
+            clearTimeout(timer);
+            // Wait briefly for an optional second key
+            if (keys.length >= 2) {
+                finish();
+            } else {
+                timer = setTimeout(finish, SEQUENCE_TIMEOUT);
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown, true);
+            clearTimeout(timer);
+        };
+    }, [recording]);
+
+    return (
+        <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                <Typography variant="h6">Keyboard Shortcuts</Typography>
+                <Button
+                    size="small"
+                    startIcon={<RestartAltIcon />}
+                    onClick={() => {
+                        updateKeymap({ ...defaultKeymap });
+                        setError(null);
+                    }}
+                >
+                    Reset to Defaults
+                </Button>
+            </Box>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Press ? anywhere to see the current shortcuts. To record a sequence, press the second key within a second.
+            </Typography>
+
+            {error && (
+                <Alert severity="warning" onClose={() => setError(null)} sx={{ mb: 2 }}>
+                    {error}
+                </Alert>
+            )}
+
+            {sections.map(({ scope, title }) => (
+                <Box key={scope} sx={{ mb: 3 }}>
+                    <Typography variant="subtitle1" gutterBottom>{title}</Typography>
+                    <Paper variant="outlined">
+                        <Table size="small">
+                            <TableBody>
+                                {keyActions.filter((a) => a.scope === scope).map(({ action, label }) => (
+                                    <TableRow key={action}>
+                                        <TableCell>{label}</TableCell>
+                                        <TableCell align="right">
+                                            <Box sx={{ display: 'flex', gap: 0.5, justifyContent: 'flex-end', flexWrap: 'wrap', alignItems: 'center' }}>
+                                                {keymap[action].map((binding) => (
+                                                    <Chip
+                                                        key={binding}
+                                                        size="small"
+                                                        label={formatBinding(binding)}
+                                                        onDelete={() => removeBinding(action, binding)}
+                                                        sx={{ fontFamily: 'monospace' }}
+                                                    />
+                                                ))}
+                                                {recording === action ? (
+                                                    <Chip
+                                                        size="small"
+                                                        color="primary"
+                                                        label={recorded.length > 0 ? `${formatBinding(recorded[0])} …` : 'Press a key…'}
+                                                    />
+                                                ) : (
+                                                    <Tooltip title="Add shortcut">
+                                                        <IconButton
+                                                            size="small"
+                                                            onClick={() => {
+                                                                setRecorded([]);
+                                                                setRecording(action);
+                                                            }}
+                                                        >
+                                                            <AddIcon fontSize="small" />
+                                                        </IconButton>
+                                                    </Tooltip>
+                                                )}
+                                            </Box>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </Paper>
+                </Box>
+            ))}
+        </Box>
+    );
+}
@@ -6,6 +6,7 @@ import {
 import DeleteIcon from '@mui/icons-material/Delete';
 import AddIcon from '@mui/icons-material/Add';
 import axios from 'axios';
+import LibraryDuplicates from './LibraryDuplicates';
 
 interface Category {
     id: number;
@@ -138,6 +139,15 @@ export default function SettingsLibrary() {
                     </List>
                 )}
             </Paper>
+
+            <Divider sx={{ my: 3 }} />
+
+            {/* Duplicates */}
+            <Typography variant="h6" gutterBottom>Duplicates</Typography>
+            <Typography variant="body2" color="text.secondary" paragraph>
+                Find novels added from more than one source, then merge them into one entry or remove the extras.
+            </Typography>
+            <LibraryDuplicates />
         </Box>
     );
 }
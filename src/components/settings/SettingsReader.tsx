@@ -1,7 +1,15 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
-    Typography, Box, Paper, FormControl, Select, MenuItem, Slider, TextField, Stack
+    Typography, Box, Paper, FormControl, Select, MenuItem, Slider, TextField, Stack,
+    FormControlLabel, Switch
 } from '@mui/material';
+import ReplacementRulesEditor from '../reader/ReplacementRulesEditor';
+import {
+    defaultCompletionSettings,
+    loadCompletionSettings,
+    saveCompletionSettings,
+} from '../../utils/readerCompletion';
+import type { CompletionSettings } from '../../utils/readerCompletion';
 
 export default function SettingsReader() {
     const [readerSettings, setReaderSettings] = useState({
@@ -20,6 +28,19 @@ export default function SettingsReader() {
         localStorage.setItem(`reader_${key}`, val.toString());
     };
 
+    const [completion, setCompletion] = useState<CompletionSettings>(defaultCompletionSettings);
+
+    useEffect(() => {
+        loadCompletionSettings()
+            .then(setCompletion)
+            .catch((e) => console.error('Failed to load reading progress settings:', e));
+    }, []);
+
+    const updateCompletion = (patch: Partial<CompletionSettings>) => {
+        setCompletion(prev => ({ ...prev, ...patch }));
+        saveCompletionSettings(patch).catch((e) => console.error('Failed to save reading progress settings:', e));
+    };
+
     return (
         <Box>
             <Typography variant="h6" gutterBottom>Reading Customization</Typography>
@@ -116,6 +137,34 @@ export default function SettingsReader() {
                 </Box>
             </Paper>
 
+            <Typography variant="h6" gutterBottom>Reading Progress</Typography>
+            <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
+                <Typography gutterBottom>Mark chapter as read after reading {completion.markReadThreshold}%</Typography>
+                <Slider
+                    value={completion.markReadThreshold}
+                    min={50}
+                    max={100}
+                    step={5}
+                    valueLabelDisplay="auto"
+                    onChange={(_, v) => setCompletion(prev => ({ ...prev, markReadThreshold: v as number }))}
+                    onChangeCommitted={(_, v) => updateCompletion({ markReadThreshold: v as number })}
+                />
+                <Stack>
+                    <FormControlLabel
+                        control={<Switch checked={completion.markReadOnNext} onChange={(e) => updateCompletion({ markReadOnNext: e.target.checked })} />}
+                        label="Mark as read when going to the next chapter"
+                    />
+                    <FormControlLabel
+                        control={<Switch checked={completion.deleteAfterReading} onChange={(e) => updateCompletion({ deleteAfterReading: e.target.checked })} />}
+                        label="Delete download after reading"
+                    />
+                    <FormControlLabel
+                        control={<Switch checked={completion.syncTrackersOnFinish} onChange={(e) => updateCompletion({ syncTrackersOnFinish: e.target.checked })} />}
+                        label="Update trackers when a chapter is finished"
+                    />
+                </Stack>
+            </Paper>
+
             <Typography variant="h6" gutterBottom>Custom CSS</Typography>
             <Paper variant="outlined" sx={{ p: 2 }}>
                 <TextField
@@ -128,6 +177,14 @@ export default function SettingsReader() {
                     onChange={(e) => updateReaderSetting('customCSS', e.target.value)}
                 />
             </Paper>
+
+            <Typography variant="h6" gutterBottom sx={{ mt: 3 }}>Text Replacements</Typography>
+            <Paper variant="outlined" sx={{ p: 2 }}>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    Fix names and terms in chapter text. Per-novel rules are added from the reader settings panel.
+                </Typography>
+                <ReplacementRulesEditor />
+            </Paper>
         </Box>
     );
 }
@@ -0,0 +1,118 @@
+/**
+ * Tracker Sync Log - progress updates that have not reached the trackers yet
+ *
+ * Features:
+ * - Pending and failed pushes with the last error
+ * - Retry, retry all and discard
+ * - Per-tracker "only update if higher" rule
+ */
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import {
+    Typography, Box, Paper, List, ListItem, ListItemText, IconButton, Button, Chip,
+    Tooltip, Stack, FormControlLabel, Switch
+} from '@mui/material';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import DeleteIcon from '@mui/icons-material/Delete';
+import axios from 'axios';
+import { getTrackerName, hasCapability, trackerRegistry } from '../../utils/trackers';
+import {
+    discardSyncItem, getOnlyIfHigher, getSyncQueue, retryAllSyncItems, retrySyncItem,
+    setOnlyIfHigher, subscribeSyncQueue
+} from '../../utils/trackerSync';
+
+// Trackers that can receive chapter progress
+const progressTrackers = trackerRegistry.filter((t) => hasCapability(t, 'progress'));
+
+export default function TrackerSyncLog() {
+    const queue = useSyncExternalStore(subscribeSyncQueue, getSyncQueue);
+    const [novelNames, setNovelNames] = useState<Record<number, string>>({});
+    const [onlyIfHigher, setOnlyIfHigherState] = useState<Record<string, boolean>>(() =>
+        Object.fromEntries(progressTrackers.map((t) => [t.id, getOnlyIfHigher(t.id)]))
+    );
+
+    useEffect(() => {
+        axios.get('/api/library')
+            .then((res) => setNovelNames(Object.fromEntries(
+                (res.data || []).map((n: { id: number; name: string }) => [n.id, n.name])
+            )))
+            .catch((e) => console.error('Failed to load library:', e));
+    }, []);
+
+    const handleRuleChange = (tracker: string, value: boolean) => {
+        setOnlyIfHigher(tracker, value);
+        setOnlyIfHigherState((prev) => ({ ...prev, [tracker]: value }));
+    };
+
+    return (
+        <Box sx={{ mt: 4 }}>
+            <Typography variant="h6" gutterBottom>Progress Sync</Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Finished chapters update "chapters read" on every tracker the novel is bound to.
+                Updates that could not be sent are retried automatically.
+            </Typography>
+
+            <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+                <Stack>
+                    {progressTrackers.map((t) => (
+                        <FormControlLabel
+                            key={t.id}
+                            control={<Switch checked={onlyIfHigher[t.id]} onChange={(e) => handleRuleChange(t.id, e.target.checked)} />}
+                            label={`${t.name}: only update if higher than the tracker's progress`}
+                        />
+                    ))}
+                </Stack>
+            </Paper>
+
+            <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+                <Typography variant="subtitle1" sx={{ flexGrow: 1 }}>Sync Log</Typography>
+                <Button size="small" startIcon={<RefreshIcon />} onClick={retryAllSyncItems} disabled={queue.length === 0}>
+                    Retry All
+                </Button>
+            </Box>
+            <Paper variant="outlined">
+                {queue.length === 0 ? (
+                    <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                        All progress is synced.
+                    </Typography>
+                ) : (
+                    <List dense>
+                        {queue.map((item) => (
+                            <ListItem
+                                key={`${item.novelId}:${item.tracker}`}
+                                secondaryAction={
+                                    <>
+                                        <Tooltip title="Retry">
+                                            <IconButton onClick={() => retrySyncItem(item)}><RefreshIcon /></IconButton>
+                                        </Tooltip>
+                                        <Tooltip title="Discard">
+                                            <IconButton onClick={() => discardSyncItem(item)}><DeleteIcon /></IconButton>
+                                        </Tooltip>
+                                    </>
+                                }
+                            >
+                                <ListItemText
+                                    primary={
+                                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                                            {novelNames[item.novelId] || `Novel #${item.novelId}`}
+                                            <Chip
+                                                size="small"
+                                                label={item.status === 'failed' ? 'Failed' : 'Pending'}
+                                                color={item.status === 'failed' ? 'error' : 'default'}
+                                            />
+                                        </Box>
+                                    }
+                                    secondary={[
+                                        `${item.tracker ? getTrackerName(item.tracker) : 'All trackers'} → chapter ${item.progress}`,
+                                        item.attempts > 0 ? `${item.attempts} attempt${item.attempts === 1 ? '' : 's'}` : null,
+                                        item.lastError,
+                                    ].filter(Boolean).join(' · ')}
+                                />
+                            </ListItem>
+                        ))}
+                    </List>
+                )}
+            </Paper>
+        </Box>
+    );
+}
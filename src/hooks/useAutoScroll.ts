@@ -0,0 +1,71 @@
+import { useEffect, useRef } from 'react';
+import type { AutoScrollUnit } from '../components/reader/ReaderSettingsPanel';
+
+// Slider ranges for the two speed units
+export const autoScrollRanges: Record<AutoScrollUnit, { min: number; max: number; step: number }> = {
+    px: { min: 5, max: 300, step: 5 },
+    wpm: { min: 50, max: 1000, step: 10 },
+};
+
+// How often the speed is re-read (slider changes, content/font changes)
+const SPEED_REFRESH = 1000;
+
+interface AutoScrollOptions {
+    active: boolean;
+    // Pixels per second; re-evaluated periodically while scrolling
+    getSpeed: () => number;
+    // Called once when the bottom of the page is reached
+    onEnd: () => void;
+    // Restart the loop when this changes (e.g. a new chapter was loaded)
+    restartKey?: unknown;
+}
+
+/**
+ * Smoothly scroll the window at a given speed (teleprompter style).
+ */
+export function useAutoScroll({ active, getSpeed, onEnd, restartKey }: AutoScrollOptions) {
+    const getSpeedRef = useRef(getSpeed);
+    const onEndRef = useRef(onEnd);
+
+    useEffect(() => {
+        getSpeedRef.current = getSpeed;
+        onEndRef.current = onEnd;
+    });
+
+    useEffect(() => {
+        if (!active) return;
+
+        let frame = 0;
+        let last = performance.now();
+        let lastMeasure = last;
+        let speed = getSpeedRef.current();
+        // Sub-pixel distance carried over between frames
+        let carry = 0;
+
+        const step = (now: number) => {
+            // Clamp so a backgrounded tab doesn't jump on return
+            const elapsed = Math.min(now - last, 100) / 1000;
+            last = now;
+            if (now - lastMeasure > SPEED_REFRESH) {
+                speed = getSpeedRef.current();
+                lastMeasure = now;
+            }
+
+            carry += speed * elapsed;
+            const pixels = Math.floor(carry);
+            if (pixels >= 1) {
+                carry -= pixels;
+                window.scrollBy(0, pixels);
+            }
+
+            if (window.innerHeight + window.scrollY >= document.documentElement.scrollHeight - 1) {
+                onEndRef.current();
+                return;
+            }
+            frame = requestAnimationFrame(step);
+        };
+
+        frame = requestAnimationFrame(step);
+        return () => cancelAnimationFrame(frame);
+    }, [active, restartKey]);
+}
@@ -0,0 +1,69 @@
+import { useEffect, useRef } from 'react';
+import {
+    eventToKey, findSequenceAction, isSequenceStart, isTypingTarget, keyActions, loadKeymap, onKeymapChange,
+    SEQUENCE_TIMEOUT
+} from '../utils/keymap';
+import type { KeyAction, KeyScope } from '../utils/keymap';
+
+export type ShortcutHandlers = Partial<Record<KeyAction, () => void>>;
+
+/**
+ * Run handlers for the configured shortcuts of a scope.
+ * Handlers may change every render; the listener always calls the latest ones.
+ * Keymap edits from Settings apply immediately.
+ *
+ * Every scope follows sequences of all scopes: the key after a pending prefix
+ * is left to the scope that owns the sequence, so the reader's listener (which
+ * runs first) doesn't take the "b" of the global "g b".
+ */
+export function useKeyboardShortcuts(scope: KeyScope, handlers: ShortcutHandlers) {
+    const handlersRef = useRef(handlers);
+
+    useEffect(() => {
+        handlersRef.current = handlers;
+    });
+
+    useEffect(() => {
+        let keymap = loadKeymap();
+        const unsubscribe = onKeymapChange(() => {
+            keymap = loadKeymap();
+        });
+        const actions = keyActions.filter((a) => a.scope === scope).map((a) => a.action);
+        let pendingKey: string | null = null;
+        let pendingAt = 0;
+
+        const findAction = (binding: string) =>
+            actions.find((action) => keymap[action].includes(binding) && handlersRef.current[action]);
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.defaultPrevented || isTypingTarget(e.target)) return;
+            const key = eventToKey(e);
+            if (!key) return;
+
+            const sequence = pendingKey && Date.now() - pendingAt < SEQUENCE_TIMEOUT ? `${pendingKey} ${key}` : null;
+            pendingKey = null;
+
+            const owner = sequence ? findSequenceAction(keymap, sequence) : undefined;
+            if (owner && owner.scope !== scope) return;
+
+            const action = (sequence && findAction(sequence)) || findAction(key);
+            if (action) {
+                e.preventDefault();
+                handlersRef.current[action]?.();
+                return;
+            }
+
+            // First key of a sequence: wait for the second one
+            if (isSequenceStart(keymap, key)) {
+                pendingKey = key;
+                pendingAt = Date.now();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            unsubscribe();
+        };
+    }, [scope]);
+}
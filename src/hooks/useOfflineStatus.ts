@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { isOffline, subscribeOffline } from '../utils/offlineCache';
+
+/**
+ * True while the browser is offline or the server can't be reached.
+ */
+export function useOfflineStatus() {
+    return useSyncExternalStore(subscribeOffline, isOffline);
+}
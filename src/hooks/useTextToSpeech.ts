@@ -0,0 +1,133 @@
+/**
+ * Text-to-speech hooks built on the browser SpeechSynthesis API
+ *
+ * - useSpeechVoices: installed voices (loaded asynchronously by most browsers)
+ * - useTextToSpeech: speaks a list of paragraph elements one after another
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type SpeechStatus = 'idle' | 'playing' | 'paused';
+
+const PARAGRAPH_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre';
+
+export const isSpeechSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * Split rendered chapter content into speakable blocks.
+ * Nested matches are skipped in favour of the innermost element.
+ */
+export const getSpeakableParagraphs = (root: HTMLElement | null): HTMLElement[] => {
+    if (!root) return [];
+    const blocks = Array.from(root.querySelectorAll<HTMLElement>(PARAGRAPH_SELECTOR))
+        .filter((el) => !el.querySelector(PARAGRAPH_SELECTOR) && el.textContent?.trim());
+    return blocks.length > 0 ? blocks : [root];
+};
+
+export function useSpeechVoices() {
+    const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() =>
+        isSpeechSupported() ? window.speechSynthesis.getVoices() : []
+    );
+
+    useEffect(() => {
+        if (!isSpeechSupported()) return;
+        const handleVoicesChanged = () => setVoices(window.speechSynthesis.getVoices());
+        window.speechSynthesis.addEventListener('voiceschanged', handleVoicesChanged);
+        return () => window.speechSynthesis.removeEventListener('voiceschanged', handleVoicesChanged);
+    }, []);
+
+    return voices;
+}
+
+interface Options {
+    voiceURI: string;
+    rate: number;
+    pitch: number;
+    // Called after the last paragraph has been spoken
+    onFinished: () => void;
+}
+
+export function useTextToSpeech({ voiceURI, rate, pitch, onFinished }: Options) {
+    const [status, setStatus] = useState<SpeechStatus>('idle');
+    const [activeElement, setActiveElement] = useState<HTMLElement | null>(null);
+
+    // Incremented on every start/stop so callbacks of cancelled utterances are ignored
+    const session = useRef(0);
+    const options = useRef({ voiceURI, rate, pitch, onFinished });
+
+    useEffect(() => {
+        options.current = { voiceURI, rate, pitch, onFinished };
+    }, [voiceURI, rate, pitch, onFinished]);
+
+    const start = useCallback((elements: HTMLElement[], startIndex = 0) => {
+        if (!isSpeechSupported() || elements.length === 0) return;
+        window.speechSynthesis.cancel();
+        session.current += 1;
+        const currentSession = session.current;
+
+        function speakAt(index: number) {
+            if (currentSession !== session.current) return;
+
+            const element = elements[index];
+            if (!element) {
+                setStatus('idle');
+                setActiveElement(null);
+                options.current.onFinished();
+                return;
+            }
+
+            const { voiceURI, rate, pitch } = options.current;
+            const utterance = new SpeechSynthesisUtterance(element.textContent || '');
+            const voice = window.speechSynthesis.getVoices().find((v) => v.voiceURI === voiceURI);
+            if (voice) utterance.voice = voice;
+            utterance.rate = rate;
+            utterance.pitch = pitch;
+            utterance.onend = () => speakAt(index + 1);
+            utterance.onerror = (e) => {
+                // 'interrupted' / 'canceled' are expected when stopping
+                if (e.error !== 'interrupted' && e.error !== 'canceled') {
+                    console.error('Speech synthesis error:', e.error);
+                    speakAt(index + 1);
+                }
+            };
+
+            setActiveElement(element);
+            window.speechSynthesis.speak(utterance);
+        }
+
+        setStatus('playing');
+        speakAt(Math.max(0, startIndex));
+    }, []);
+
+    const pause = useCallback(() => {
+        if (!isSpeechSupported()) return;
+        window.speechSynthesis.pause();
+        setStatus('paused');
+    }, []);
+
+    const resume = useCallback(() => {
+        if (!isSpeechSupported()) return;
+        window.speechSynthesis.resume();
+        setStatus('playing');
+    }, []);
+
+    const stop = useCallback(() => {
+        if (!isSpeechSupported()) return;
+        session.current += 1;
+        window.speechSynthesis.cancel();
+        setStatus('idle');
+        setActiveElement(null);
+    }, []);
+
+    // Never keep talking after the reader is closed
+    useEffect(() => {
+        return () => {
+            if (isSpeechSupported()) {
+                session.current += 1;
+                window.speechSynthesis.cancel();
+            }
+        };
+    }, []);
+
+    return { status, activeElement, start, pause, resume, stop };
+}
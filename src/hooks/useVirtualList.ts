@@ -0,0 +1,94 @@
+/**
+ * useVirtualList - render only the rows of a long fixed-height list that are on screen
+ *
+ * Works inside whichever ancestor scrolls (the layout's content pane, or the
+ * window), so the list keeps its normal place in the page flow. Rows outside
+ * the visible range are replaced by spacers of the same total height.
+ */
+
+import { useEffect, useState } from 'react';
+
+interface UseVirtualListOptions {
+    count: number;
+    rowHeight: number;
+    // Extra rows rendered above and below the visible ones
+    overscan?: number;
+}
+
+const getScrollParent = (element: HTMLElement): HTMLElement | null => {
+    let parent = element.parentElement;
+    while (parent) {
+        const { overflowY } = getComputedStyle(parent);
+        if (overflowY === 'auto' || overflowY === 'scroll') {
+            return parent;
+        }
+        parent = parent.parentElement;
+    }
+    return null;
+};
+
+// Position of the list relative to the visible area of its scroller
+const measure = (list: HTMLElement) => {
+    const scroller = getScrollParent(list);
+    const viewportTop = scroller ? scroller.getBoundingClientRect().top : 0;
+    return {
+        scroller,
+        offset: list.getBoundingClientRect().top - viewportTop,
+        height: scroller ? scroller.clientHeight : window.innerHeight,
+    };
+};
+
+export function useVirtualList<T extends HTMLElement>({ count, rowHeight, overscan = 10 }: UseVirtualListOptions) {
+    // Callback ref kept in state: the page may unmount and remount the list (e.g. behind
+    // a loading spinner), and the scroll listener has to follow the new element
+    const [list, listRef] = useState<T | null>(null);
+    const [range, setRange] = useState({ start: 0, end: 50 });
+
+    useEffect(() => {
+        if (!list) return;
+        const scroller = getScrollParent(list);
+        const target: HTMLElement | Window = scroller || window;
+
+        let frame = 0;
+        const update = () => {
+            cancelAnimationFrame(frame);
+            frame = requestAnimationFrame(() => {
+                const m = measure(list);
+                const start = Math.max(0, Math.floor(-m.offset / rowHeight) - overscan);
+                const end = Math.min(count, Math.ceil((m.height - m.offset) / rowHeight) + overscan);
+                setRange((prev) => (prev.start === start && prev.end === end ? prev : { start, end }));
+            });
+        };
+
+        update();
+        target.addEventListener('scroll', update, { passive: true });
+        window.addEventListener('resize', update);
+        return () => {
+            cancelAnimationFrame(frame);
+            target.removeEventListener('scroll', update);
+            window.removeEventListener('resize', update);
+        };
+    }, [list, count, rowHeight, overscan]);
+
+    /**
+     * Scroll so the row at index is in the middle of the visible area.
+     */
+    const scrollToIndex = (index: number) => {
+        if (!list) return;
+        const m = measure(list);
+        const delta = m.offset + index * rowHeight - (m.height - rowHeight) / 2;
+        (m.scroller || window).scrollBy({ top: delta, behavior: 'smooth' });
+    };
+
+    const start = Math.min(range.start, count);
+    const end = Math.min(Math.max(range.end, start), count);
+
+    return {
+        listRef,
+        start,
+        end,
+        paddingTop: start * rowHeight,
+        paddingBottom: (count - end) * rowHeight,
+        scrollToIndex,
+    };
+}
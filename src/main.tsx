@@ -1,8 +1,18 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { installOfflineCache } from './utils/offlineCache'
 import './index.css' // Keep default styles if available, or empty file
 
+installOfflineCache()
+
+// The service worker only makes sense for the built app; the dev server serves unbundled modules
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((e) => console.error('Service worker registration failed:', e))
+  })
+}
+
 ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
   <React.StrictMode>
     <App />
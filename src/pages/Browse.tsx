@@ -5,6 +5,7 @@
  * - Source cards with icons
  * - Global search across all sources
  * - Extensions management
+ * - Per-source trusted HTML rendering toggle
  * - Repository management (add/remove plugin repos)
  * - Suwayomi-style UI
  */
@@ -49,7 +50,10 @@ import DeleteIcon from '@mui/icons-material/Delete';
 import DownloadIcon from '@mui/icons-material/Download';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import LanguageIcon from '@mui/icons-material/Language';
+import VerifiedUserIcon from '@mui/icons-material/VerifiedUser';
+import GppMaybeOutlinedIcon from '@mui/icons-material/GppMaybeOutlined';
 import axios from 'axios';
+import { loadTrustedSources, setSourceTrusted } from '../utils/trustedSources';
 import { useToolbar } from '../contexts/ToolbarContext';
 
 interface Plugin {
@@ -89,6 +93,7 @@ export default function Browse() {
     const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
     const [searching, setSearching] = useState(false);
     const [loading, setLoading] = useState(true);
+    const [trustedSources, setTrustedSources] = useState<string[]>([]);
 
     // Language filter state
     const [selectedLanguage, setSelectedLanguage] = useState<string>('all');
@@ -111,6 +116,9 @@ export default function Browse() {
         fetchInstalled();
         fetchAvailable();
         fetchRepositories();
+        loadTrustedSources()
+            .then(setTrustedSources)
+            .catch((e) => console.error('Failed to fetch trusted sources:', e));
     }, []);
 
     const fetchInstalled = async () => {
@@ -142,6 +150,18 @@ export default function Browse() {
         }
     };
 
+    const handleToggleTrusted = async (plugin: Plugin) => {
+        const trusted = !trustedSources.includes(plugin.id);
+        if (trusted && !confirm(`Render chapters from ${plugin.name} without sanitization? Only do this for sources you trust.`)) {
+            return;
+        }
+        try {
+            setTrustedSources(await setSourceTrusted(plugin.id, trusted));
+        } catch (e) {
+            console.error('Failed to update trusted sources:', e);
+        }
+    };
+
     const handleInstall = async (plugin: any) => {
         try {
             await axios.post('/api/source/install', plugin);
@@ -317,6 +337,24 @@ export default function Browse() {
                                             </CardContent>
                                         </CardActionArea>
                                         <Box sx={{ display: 'flex', justifyContent: 'center', p: 0.5, borderTop: 1, borderColor: 'divider' }}>
+                                            <Tooltip
+                                                title={trustedSources.includes(plugin.id)
+                                                    ? 'Trusted: chapter HTML is not sanitized'
+                                                    : 'Chapter HTML is sanitized. Click to trust'}
+                                            >
+                                                <IconButton
+                                                    size="small"
+                                                    color={trustedSources.includes(plugin.id) ? 'warning' : 'default'}
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        handleToggleTrusted(plugin);
+                                                    }}
+                                                >
+                                                    {trustedSources.includes(plugin.id)
+                                                        ? <VerifiedUserIcon fontSize="small" />
+                                                        : <GppMaybeOutlinedIcon fontSize="small" />}
+                                                </IconButton>
+                                            </Tooltip>
                                             <Tooltip title="Uninstall">
                                                 <IconButton
                                                     size="small"
@@ -8,6 +8,7 @@
  * - View download history
  * - Format selection for new downloads
  * - Storage usage display
+ * - Completed chapters are copied to the offline cache
  */
 
 import { useEffect, useState, useRef, useCallback } from 'react';
@@ -46,6 +47,7 @@ import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import ErrorIcon from '@mui/icons-material/Error';
 import RefreshIcon from '@mui/icons-material/Refresh';
 import axios from 'axios';
+import { cacheChapter } from '../utils/offlineCache';
 
 interface DownloadTask {
     id: string;
@@ -148,6 +150,7 @@ export default function Downloads() {
                         : t
                 ));
                 fetchStorageInfo();
+                cacheChapter(message.data.chapterId).catch((e) => console.error('Failed to cache chapter offline:', e));
                 break;
             case 'download:error':
                 setTasks((prev) => prev.map((t) =>
@@ -3,6 +3,7 @@
  * 
  * Features:
  * - Reading history with resume button
+ * - Per-chapter reading progress (synced from the reader)
  * - Group by date
  * - Remove individual items or clear all
  * - Suwayomi-style UI
@@ -24,6 +25,7 @@ import {
     Chip,
     Tooltip,
     CircularProgress,
+    LinearProgress,
 } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
@@ -226,10 +228,18 @@ export default function HistoryPage() {
                                                         color="text.secondary"
                                                     >
                                                         {formatTime(item.readTime)}
-                                                        {item.progress && ` • ${item.progress}% read`}
+                                                        {!!item.progress && ` • ${item.progress}% read`}
                                                     </Typography>
+                                                    {!!item.progress && (
+                                                        <LinearProgress
+                                                            variant="determinate"
+                                                            value={item.progress}
+                                                            sx={{ display: 'block', mt: 0.5, maxWidth: 240, borderRadius: 1 }}
+                                                        />
+                                                    )}
                                                 </>
                                             }
+                                            slotProps={{ secondary: { component: 'div' } }}
                                             sx={{ ml: 1 }}
                                         />
                                     </ListItem>
@@ -2,16 +2,16 @@
  * Library Page - Complete Redesign
  * 
  * Features:
- * - Grid/List display toggle
- * - Filter by status (all, reading, completed, on hold)
+ * - Tri-state filters (reading state, tracked, source, status, genre), saved per category
  * - Sort by name, last read, date added, unread count
+ * - Sort, display mode (grid, compact, cover only, list) and columns saved per category on the server
  * - Category tabs
- * - Search within library
- * - Batch selection mode
+ * - Search within library, by title or full text (author, genres, summary, downloaded chapters)
+ * - Batch selection: mark read/unread, download, move or copy to categories, update, migrate source, remove (with undo)
  * - Suwayomi-style UI
  */
 
-import { useEffect, useState, useMemo } from 'react';
+import { useEffect, useState, useMemo, useRef } from 'react';
 import {
     Container,
     CircularProgress,
@@ -32,9 +32,17 @@ import {
     Tooltip,
     Fade,
     Paper,
+    Badge,
+    Slider,
+    Snackbar,
+    SnackbarContent,
+    LinearProgress,
 } from '@mui/material';
 import GridViewIcon from '@mui/icons-material/GridView';
 import ViewListIcon from '@mui/icons-material/ViewList';
+import ViewModuleIcon from '@mui/icons-material/ViewModule';
+import ImageIcon from '@mui/icons-material/Image';
+import ViewColumnIcon from '@mui/icons-material/ViewColumn';
 import SearchIcon from '@mui/icons-material/Search';
 import SortIcon from '@mui/icons-material/Sort';
 import RefreshIcon from '@mui/icons-material/Refresh';
@@ -42,10 +50,51 @@ import SelectAllIcon from '@mui/icons-material/SelectAll';
 import DeleteIcon from '@mui/icons-material/Delete';
 import DownloadIcon from '@mui/icons-material/Download';
 import CategoryIcon from '@mui/icons-material/Category';
+import ManageSearchIcon from '@mui/icons-material/ManageSearch';
+import FilterListIcon from '@mui/icons-material/FilterList';
+import DoneAllIcon from '@mui/icons-material/DoneAll';
+import RemoveDoneIcon from '@mui/icons-material/RemoveDone';
+import UpdateIcon from '@mui/icons-material/Update';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
 import axios from 'axios';
 import { useNavigate } from 'react-router-dom';
 import NovelCard from '../components/NovelCard';
 import type { Novel } from '../components/NovelCard';
+import LibrarySearchResults from '../components/LibrarySearchResults';
+import { searchLibrary } from '../utils/librarySearch';
+import type { LibrarySearchResult } from '../utils/librarySearch';
+import { MIN_QUERY_LENGTH } from '../utils/chapterSearch';
+import { LibraryFilterSheet } from '../components/filters';
+import {
+    countActiveFilters,
+    emptyFilters,
+    libraryFlags,
+    loadCategoryFilters,
+    matchesFilters,
+    saveCategoryFilters,
+} from '../utils/libraryFilters';
+import type { LibraryFilterGroup, LibraryFilterState } from '../utils/libraryFilters';
+import {
+    displayModes,
+    getDefaultDisplaySettings,
+    getGridColumns,
+    loadCategoryDisplay,
+    MAX_COLUMNS,
+    saveCategoryDisplay,
+    sortOptions,
+} from '../utils/libraryDisplay';
+import type { CategoryDisplaySettings, DisplayMode } from '../utils/libraryDisplay';
+import BatchCategoryDialog from '../components/dialogs/BatchCategoryDialog';
+import MigrationDialog from '../components/dialogs/MigrationDialog';
+import {
+    assignCategories,
+    downloadUnread,
+    markNovelsRead,
+    removeNovels,
+    updateNovels,
+} from '../utils/libraryBatch';
+import type { BatchResult, CategoryMode, ProgressCallback } from '../utils/libraryBatch';
+import { onReadStateChange } from '../utils/readState';
 import { useToolbar } from '../contexts/ToolbarContext';
 
 interface Category {
@@ -54,8 +103,19 @@ interface Category {
     sort: number;
 }
 
-type SortOption = 'name' | 'lastRead' | 'dateAdded' | 'unread';
-type DisplayMode = 'grid' | 'list';
+interface LibraryToast {
+    message: string;
+    undo?: () => void;
+}
+
+const downloadLimits = [1, 5, 10, 25];
+
+const displayModeIcons: Record<DisplayMode, React.ReactNode> = {
+    grid: <GridViewIcon fontSize="small" />,
+    compact: <ViewModuleIcon fontSize="small" />,
+    cover: <ImageIcon fontSize="small" />,
+    list: <ViewListIcon fontSize="small" />,
+};
 
 export default function Library() {
     const navigate = useNavigate();
@@ -66,35 +126,86 @@ export default function Library() {
     const [loading, setLoading] = useState(true);
 
     // UI state
-    const [displayMode, setDisplayMode] = useState<DisplayMode>(() =>
-        (localStorage.getItem('library.displayMode') as DisplayMode) || 'grid'
-    );
     const [searchQuery, setSearchQuery] = useState('');
     const [selectedCategory, setSelectedCategory] = useState<number>(0); // 0 = All
-    const [sortBy, setSortBy] = useState<SortOption>(() =>
-        (localStorage.getItem('library.sortBy') as SortOption) || 'lastRead'
+    const [categoryDisplay, setCategoryDisplay] = useState<Record<number, CategoryDisplaySettings>>({});
+    const [categoryFilters, setCategoryFilters] = useState<Record<number, LibraryFilterState>>(loadCategoryFilters);
+    const [filterOpen, setFilterOpen] = useState(false);
+    const [fullTextSearch, setFullTextSearch] = useState(() =>
+        localStorage.getItem('library.fullTextSearch') === 'true'
     );
-    const [sortAsc, setSortAsc] = useState(false);
+    // Results are kept with the query they belong to, so stale ones are never shown
+    const [searchResults, setSearchResults] = useState<{ query: string; results: LibrarySearchResult[] } | null>(null);
 
     // Selection state
     const [selectionMode, setSelectionMode] = useState(false);
     const [selectedNovels, setSelectedNovels] = useState<Set<number>>(new Set());
+    const [categoryDialogOpen, setCategoryDialogOpen] = useState(false);
+    const [migrateIds, setMigrateIds] = useState<number[]>([]);
+
+    // Batch action progress and result toast
+    const [batchProgress, setBatchProgress] = useState<{ label: string; done: number; total: number } | null>(null);
+    const [toast, setToast] = useState<LibraryToast | null>(null);
+    // Removed novels stay hidden until the undo window closes, then get deleted
+    const [hiddenNovels, setHiddenNovels] = useState<Set<number>>(new Set());
+    const pendingRemovalRef = useRef<number[] | null>(null);
 
     // Menu anchors
     const [sortAnchor, setSortAnchor] = useState<null | HTMLElement>(null);
+    const [columnsAnchor, setColumnsAnchor] = useState<null | HTMLElement>(null);
+    const [downloadAnchor, setDownloadAnchor] = useState<null | HTMLElement>(null);
 
     useEffect(() => {
         fetchLibrary();
         fetchCategories();
+        loadCategoryDisplay()
+            .then(setCategoryDisplay)
+            .catch((e) => console.error('Failed to load library display settings', e));
     }, []);
 
+    // Keep unread badges in step with read state changes made anywhere in the app
+    useEffect(() => onReadStateChange(({ novelId, chapterIds, read }) => {
+        setNovels((prev) => prev.map((n) => n.id === novelId
+            ? { ...n, chaptersUnread: Math.max(0, (n.chaptersUnread || 0) + (read ? -chapterIds.length : chapterIds.length)) }
+            : n));
+    }), []);
+
+    // A removal still waiting for undo goes through when leaving the page
     useEffect(() => {
-        localStorage.setItem('library.displayMode', displayMode);
-    }, [displayMode]);
+        const pending = pendingRemovalRef;
+        return () => {
+            if (pending.current) {
+                removeNovels(pending.current, () => {}).catch((e) => console.error('Failed to delete novels:', e));
+            }
+        };
+    }, []);
 
     useEffect(() => {
-        localStorage.setItem('library.sortBy', sortBy);
-    }, [sortBy]);
+        localStorage.setItem('library.fullTextSearch', String(fullTextSearch));
+    }, [fullTextSearch]);
+
+    const trimmedQuery = searchQuery.trim();
+    const showFullText = fullTextSearch && trimmedQuery.length >= MIN_QUERY_LENGTH;
+
+    // Full-text search, debounced while typing
+    useEffect(() => {
+        if (!showFullText) return;
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            searchLibrary(trimmedQuery)
+                .then((results) => {
+                    if (!cancelled) setSearchResults({ query: trimmedQuery, results });
+                })
+                .catch((e) => {
+                    console.error('Library search failed:', e);
+                    if (!cancelled) setSearchResults({ query: trimmedQuery, results: [] });
+                });
+        }, 400);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [showFullText, trimmedQuery]);
 
     const fetchLibrary = async () => {
         try {
@@ -120,15 +231,52 @@ export default function Library() {
         }
     };
 
+    // Sort and layout of the selected category tab
+    const { sortBy, sortAsc, displayMode, columns } = categoryDisplay[selectedCategory] || getDefaultDisplaySettings();
+
+    // Sliders update on every tick and only save once released (persist = false while dragging)
+    const updateDisplay = (patch: Partial<CategoryDisplaySettings>, persist = true) => {
+        const all = {
+            ...categoryDisplay,
+            [selectedCategory]: { sortBy, sortAsc, displayMode, columns, ...patch },
+        };
+        setCategoryDisplay(all);
+        if (!persist) return;
+        saveCategoryDisplay(all).catch((e) => console.error('Failed to save library display settings', e));
+    };
+
+    const filters = categoryFilters[selectedCategory] || emptyFilters;
+    const activeFilterCount = countActiveFilters(filters);
+
+    const setFilters = (next: LibraryFilterState) => {
+        const all = { ...categoryFilters, [selectedCategory]: next };
+        setCategoryFilters(all);
+        saveCategoryFilters(all);
+    };
+
+    const removeFilterValue = (group: LibraryFilterGroup, value: string) => {
+        setFilters({
+            ...filters,
+            [group]: {
+                include: filters[group].include?.filter((v) => v !== value),
+                exclude: filters[group].exclude?.filter((v) => v !== value),
+            },
+        });
+    };
+
     // Filter and sort novels
     const filteredNovels = useMemo(() => {
-        let result = [...novels];
+        let result = novels.filter((n) => !hiddenNovels.has(n.id));
 
         // Filter by category
         if (selectedCategory !== 0) {
             result = result.filter((n: any) => n.categoryIds?.includes(selectedCategory));
         }
 
+        if (countActiveFilters(filters) > 0) {
+            result = result.filter((n) => matchesFilters(n, filters));
+        }
+
         // Filter by search
         if (searchQuery) {
             const query = searchQuery.toLowerCase();
@@ -156,7 +304,19 @@ export default function Library() {
         });
 
         return result;
-    }, [novels, searchQuery, selectedCategory, sortBy, sortAsc]);
+    }, [novels, hiddenNovels, searchQuery, selectedCategory, filters, sortBy, sortAsc]);
+
+    // Full-text results for the current query, limited to the selected category
+    const fullTextResults = useMemo(() => {
+        if (!showFullText || searchResults?.query !== trimmedQuery) return null;
+        if (selectedCategory === 0) return searchResults.results;
+        const inCategory = new Set(
+            novels
+                .filter((n) => (n as { categoryIds?: number[] }).categoryIds?.includes(selectedCategory))
+                .map((n) => n.id)
+        );
+        return searchResults.results.filter((r) => inCategory.has(r.novelId));
+    }, [showFullText, searchResults, trimmedQuery, selectedCategory, novels]);
 
     const toggleSelection = (novelId: number) => {
         const newSelection = new Set(selectedNovels);
@@ -177,21 +337,137 @@ export default function Library() {
         setSelectionMode(false);
     };
 
-    const handleBatchDelete = async () => {
-        if (selectedNovels.size === 0) return;
+    const commitRemoval = () => {
+        const novelIds = pendingRemovalRef.current;
+        if (!novelIds) return;
+        pendingRemovalRef.current = null;
+        removeNovels(novelIds, () => {})
+            .then(fetchLibrary)
+            .catch((e) => console.error('Failed to delete novels:', e))
+            .finally(() => setHiddenNovels((prev) => new Set([...prev].filter((id) => !novelIds.includes(id)))));
+    };
+
+    const showToast = (next: LibraryToast) => {
+        commitRemoval();
+        setToast(next);
+    };
+
+    const dismissToast = () => {
+        commitRemoval();
+        setToast(null);
+    };
+
+    const handleUndo = () => {
+        toast?.undo?.();
+        setToast(null);
+    };
+
+    // Run a batch action over the selection, showing progress, then refresh the library.
+    // Resolves to null (after showing an error toast) if the action itself fails.
+    const runBatch = async <T extends BatchResult,>(
+        label: string,
+        action: (novelIds: number[], onProgress: ProgressCallback) => Promise<T>
+    ): Promise<T | null> => {
+        const novelIds = Array.from(selectedNovels);
+        commitRemoval();
+        setToast(null);
+        clearSelection();
+        setBatchProgress({ label, done: 0, total: novelIds.length });
         try {
-            await Promise.all(
-                Array.from(selectedNovels).map((id) =>
-                    axios.delete(`/api/library/${id}`)
-                )
-            );
+            return await action(novelIds, (done) => setBatchProgress({ label, done, total: novelIds.length }));
+        } catch (e) {
+            console.error(`${label} failed:`, e);
+            showToast({ message: `${label} failed` });
+            return null;
+        } finally {
+            setBatchProgress(null);
             fetchLibrary();
-            clearSelection();
+        }
+    };
+
+    const failedSuffix = ({ failed }: BatchResult) => failed > 0 ? `, ${failed} failed` : '';
+
+    const undoWith = (undo: () => Promise<void>) => () => {
+        undo()
+            .then(fetchLibrary)
+            .catch((e) => console.error('Failed to undo batch action:', e));
+    };
+
+    const handleMarkRead = async (read: boolean) => {
+        const result = await runBatch(read ? 'Marking as read' : 'Marking as unread', (novelIds, onProgress) =>
+            markNovelsRead(novelIds, read, onProgress)
+        );
+        if (!result) return;
+        showToast({
+            message: `Marked ${result.succeeded} novel(s) as ${read ? 'read' : 'unread'}${failedSuffix(result)}`,
+            undo: result.succeeded > 0 ? undoWith(result.undo) : undefined,
+        });
+    };
+
+    const handleDownload = async (limit?: number) => {
+        setDownloadAnchor(null);
+        const result = await runBatch('Queueing downloads', (novelIds, onProgress) =>
+            downloadUnread(novelIds, onProgress, limit)
+        );
+        if (!result) return;
+        showToast({
+            message: result.queued > 0
+                ? `Queued ${result.queued} chapter(s) for download${failedSuffix(result)}`
+                : result.failed > 0
+                    ? `Failed to queue downloads for ${result.failed} novel(s)`
+                    : 'No unread chapters to download',
+        });
+    };
+
+    const handleAssignCategories = async (categoryIds: number[], mode: CategoryMode) => {
+        setCategoryDialogOpen(false);
+        const result = await runBatch(mode === 'move' ? 'Moving' : 'Copying', (novelIds, onProgress) =>
+            assignCategories(novelIds, categoryIds, mode, onProgress)
+        );
+        if (!result) return;
+        showToast({
+            message: `${mode === 'move' ? 'Moved' : 'Copied'} ${result.succeeded} novel(s)${failedSuffix(result)}`,
+            undo: result.succeeded > 0 ? undoWith(result.undo) : undefined,
+        });
+    };
+
+    const handleUpdateSelected = async () => {
+        const novelIds = Array.from(selectedNovels);
+        clearSelection();
+        try {
+            await updateNovels(novelIds);
+            showToast({ message: `Checking ${novelIds.length} novel(s) for new chapters` });
         } catch (e) {
-            console.error('Failed to delete novels:', e);
+            console.error('Failed to update novels:', e);
+            showToast({ message: 'Failed to start update' });
         }
     };
 
+    const handleMigrateSelected = () => {
+        setMigrateIds(Array.from(selectedNovels));
+        clearSelection();
+    };
+
+    const handleMigrated = (novelIds: number[]) => {
+        fetchLibrary();
+        showToast({ message: `Migrated ${novelIds.length} novel(s)` });
+    };
+
+    const handleBatchDelete = () => {
+        if (selectedNovels.size === 0) return;
+        const novelIds = Array.from(selectedNovels);
+        clearSelection();
+        showToast({
+            message: `Removed ${novelIds.length} novel(s) from library`,
+            undo: () => {
+                pendingRemovalRef.current = null;
+                setHiddenNovels((prev) => new Set([...prev].filter((id) => !novelIds.includes(id))));
+            },
+        });
+        pendingRemovalRef.current = novelIds;
+        setHiddenNovels((prev) => new Set([...prev, ...novelIds]));
+    };
+
     const handleRefresh = async () => {
         setLoading(true);
         // Trigger library update
@@ -211,13 +487,13 @@ export default function Library() {
         const toolbarElements = (
             <>
                 <Chip
-                    label={filteredNovels.length}
+                    label={showFullText ? fullTextResults?.length ?? '…' : filteredNovels.length}
                     size="small"
                     sx={{ bgcolor: 'primary.main', color: 'primary.contrastText' }}
                 />
                 <TextField
                     size="small"
-                    placeholder="Search library..."
+                    placeholder={fullTextSearch ? 'Search text, author, genres...' : 'Search library...'}
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
                     InputProps={{
@@ -229,7 +505,22 @@ export default function Library() {
                     }}
                     sx={{ width: 200, bgcolor: 'action.hover', borderRadius: 1, '& .MuiOutlinedInput-notchedOutline': { border: 'none' } }}
                 />
+                <Tooltip title={fullTextSearch ? 'Search titles only' : 'Search full text'}>
+                    <IconButton
+                        color={fullTextSearch ? 'primary' : 'inherit'}
+                        onClick={() => setFullTextSearch(!fullTextSearch)}
+                    >
+                        <ManageSearchIcon />
+                    </IconButton>
+                </Tooltip>
                 <Box sx={{ flexGrow: 1 }} />
+                <Tooltip title="Filter">
+                    <IconButton color="inherit" onClick={() => setFilterOpen(true)}>
+                        <Badge badgeContent={activeFilterCount} color="primary">
+                            <FilterListIcon />
+                        </Badge>
+                    </IconButton>
+                </Tooltip>
                 <Tooltip title="Sort">
                     <IconButton color="inherit" onClick={(e) => setSortAnchor(e.currentTarget)}>
                         <SortIcon />
@@ -238,17 +529,25 @@ export default function Library() {
                 <ToggleButtonGroup
                     value={displayMode}
                     exclusive
-                    onChange={(_, value) => value && setDisplayMode(value)}
+                    onChange={(_, value) => value && updateDisplay({ displayMode: value })}
                     size="small"
                     sx={{ '& .MuiToggleButton-root': { color: 'inherit', borderColor: 'rgba(255,255,255,0.3)' } }}
                 >
-                    <ToggleButton value="grid">
-                        <GridViewIcon fontSize="small" />
-                    </ToggleButton>
-                    <ToggleButton value="list">
-                        <ViewListIcon fontSize="small" />
-                    </ToggleButton>
+                    {displayModes.map(({ value, label }) => (
+                        <Tooltip key={value} title={label}>
+                            <ToggleButton value={value}>
+                                {displayModeIcons[value]}
+                            </ToggleButton>
+                        </Tooltip>
+                    ))}
                 </ToggleButtonGroup>
+                {displayMode !== 'list' && (
+                    <Tooltip title="Columns">
+                        <IconButton color="inherit" onClick={(e) => setColumnsAnchor(e.currentTarget)}>
+                            <ViewColumnIcon />
+                        </IconButton>
+                    </Tooltip>
+                )}
                 <Tooltip title={selectionMode ? 'Exit Selection' : 'Select'}>
                     <IconButton
                         color="inherit"
@@ -272,7 +571,7 @@ export default function Library() {
         );
         setToolbarContent(toolbarElements);
         return () => setToolbarContent(null);
-    }, [loading, filteredNovels.length, searchQuery, displayMode, selectionMode, sortAnchor]);
+    }, [loading, filteredNovels.length, searchQuery, displayMode, columns, sortBy, sortAsc, selectedCategory, categoryDisplay, selectionMode, sortAnchor, fullTextSearch, showFullText, fullTextResults, activeFilterCount]);
 
     if (loading) {
         return (
@@ -290,29 +589,47 @@ export default function Library() {
                 open={Boolean(sortAnchor)}
                 onClose={() => setSortAnchor(null)}
             >
-                {(['name', 'lastRead', 'dateAdded', 'unread'] as SortOption[]).map((option) => (
+                {sortOptions.map(({ value, label }) => (
                     <MenuItem
-                        key={option}
-                        selected={sortBy === option}
+                        key={value}
+                        selected={sortBy === value}
                         onClick={() => {
-                            if (sortBy === option) {
-                                setSortAsc(!sortAsc);
+                            if (sortBy === value) {
+                                updateDisplay({ sortAsc: !sortAsc });
                             } else {
-                                setSortBy(option);
-                                setSortAsc(false);
+                                updateDisplay({ sortBy: value, sortAsc: false });
                             }
                             setSortAnchor(null);
                         }}
                     >
-                        {option === 'name' && 'Title'}
-                        {option === 'lastRead' && 'Last Read'}
-                        {option === 'dateAdded' && 'Date Added'}
-                        {option === 'unread' && 'Unread Count'}
-                        {sortBy === option && (sortAsc ? ' ↑' : ' ↓')}
+                        {label}
+                        {sortBy === value && (sortAsc ? ' ↑' : ' ↓')}
                     </MenuItem>
                 ))}
             </Menu>
 
+            {/* Grid Columns Menu */}
+            <Menu
+                anchorEl={columnsAnchor}
+                open={Boolean(columnsAnchor)}
+                onClose={() => setColumnsAnchor(null)}
+            >
+                <Box sx={{ px: 2, py: 1, width: 240 }}>
+                    <Typography variant="body2" gutterBottom>
+                        Columns: {columns === 0 ? 'Automatic' : columns}
+                    </Typography>
+                    <Slider
+                        value={columns}
+                        min={0}
+                        max={MAX_COLUMNS}
+                        step={1}
+                        marks
+                        onChange={(_, value) => updateDisplay({ columns: value as number }, false)}
+                        onChangeCommitted={(_, value) => updateDisplay({ columns: value as number })}
+                    />
+                </Box>
+            </Menu>
+
             {/* Category Tabs */}
             {categories.length > 1 && (
                 <Tabs
@@ -328,6 +645,40 @@ export default function Library() {
                 </Tabs>
             )}
 
+            {/* Active Filters */}
+            {activeFilterCount > 0 && (
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+                    {(Object.keys(filters) as LibraryFilterGroup[]).flatMap((group) => [
+                        ...(filters[group].include || []).map((value) => ({ group, value, excluded: false })),
+                        ...(filters[group].exclude || []).map((value) => ({ group, value, excluded: true })),
+                    ]).map(({ group, value, excluded }) => {
+                        const label = group === 'flags'
+                            ? libraryFlags.find((f) => f.value === value)?.label || value
+                            : value;
+                        return (
+                            <Chip
+                                key={`${group}-${value}`}
+                                size="small"
+                                label={excluded ? `Not ${label}` : label}
+                                color={excluded ? 'error' : 'primary'}
+                                variant={excluded ? 'outlined' : 'filled'}
+                                onDelete={() => removeFilterValue(group, value)}
+                            />
+                        );
+                    })}
+                    <Chip size="small" label="Clear all" variant="outlined" onClick={() => setFilters(emptyFilters)} />
+                </Box>
+            )}
+
+            <LibraryFilterSheet
+                open={filterOpen}
+                onClose={() => setFilterOpen(false)}
+                categoryName={categories.find((c) => c.id === selectedCategory)?.name || 'All'}
+                novels={novels}
+                filters={filters}
+                onChange={setFilters}
+            />
+
             {/* Selection Actions Bar */}
             <Fade in={selectionMode && selectedNovels.size > 0}>
                 <Paper
@@ -340,8 +691,12 @@ export default function Library() {
                         px: 3,
                         py: 1.5,
                         display: 'flex',
+                        flexWrap: 'wrap',
+                        justifyContent: 'center',
                         alignItems: 'center',
-                        gap: 2,
+                        gap: 1,
+                        width: 'max-content',
+                        maxWidth: 'calc(100vw - 32px)',
                         zIndex: 1000,
                         bgcolor: 'background.paper',
                         borderRadius: 2,
@@ -353,11 +708,23 @@ export default function Library() {
                     <Button size="small" startIcon={<SelectAllIcon />} onClick={selectAll}>
                         Select All
                     </Button>
-                    <Button size="small" startIcon={<DownloadIcon />} disabled>
+                    <Button size="small" startIcon={<DoneAllIcon />} onClick={() => handleMarkRead(true)}>
+                        Mark Read
+                    </Button>
+                    <Button size="small" startIcon={<RemoveDoneIcon />} onClick={() => handleMarkRead(false)}>
+                        Mark Unread
+                    </Button>
+                    <Button size="small" startIcon={<DownloadIcon />} onClick={(e) => setDownloadAnchor(e.currentTarget)}>
                         Download
                     </Button>
-                    <Button size="small" startIcon={<CategoryIcon />} disabled>
-                        Move
+                    <Button size="small" startIcon={<CategoryIcon />} onClick={() => setCategoryDialogOpen(true)}>
+                        Categories
+                    </Button>
+                    <Button size="small" startIcon={<UpdateIcon />} onClick={handleUpdateSelected}>
+                        Update
+                    </Button>
+                    <Button size="small" startIcon={<SwapHorizIcon />} onClick={handleMigrateSelected}>
+                        Migrate
                     </Button>
                     <Button
                         size="small"
@@ -373,16 +740,93 @@ export default function Library() {
                 </Paper>
             </Fade>
 
+            {/* Batch Download Menu */}
+            <Menu
+                anchorEl={downloadAnchor}
+                open={Boolean(downloadAnchor)}
+                onClose={() => setDownloadAnchor(null)}
+            >
+                <MenuItem onClick={() => handleDownload()}>All unread</MenuItem>
+                {downloadLimits.map((limit) => (
+                    <MenuItem key={limit} onClick={() => handleDownload(limit)}>
+                        Next {limit} unread
+                    </MenuItem>
+                ))}
+            </Menu>
+
+            <BatchCategoryDialog
+                open={categoryDialogOpen}
+                onClose={() => setCategoryDialogOpen(false)}
+                categories={categories.filter((c) => c.id !== 0)}
+                novelCount={selectedNovels.size}
+                onConfirm={handleAssignCategories}
+            />
+
+            <MigrationDialog
+                open={migrateIds.length > 0}
+                onClose={() => setMigrateIds([])}
+                novelIds={migrateIds}
+                onMigrated={handleMigrated}
+            />
+
+            {/* Batch Progress / Result Toast */}
+            <Snackbar
+                open={Boolean(batchProgress || toast)}
+                autoHideDuration={batchProgress ? null : 6000}
+                onClose={(_, reason) => {
+                    if (reason !== 'clickaway') dismissToast();
+                }}
+                anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+            >
+                {batchProgress ? (
+                    <Paper elevation={6} sx={{ px: 2, py: 1.5, minWidth: 280 }}>
+                        <Typography variant="body2" sx={{ mb: 1 }}>
+                            {batchProgress.label}... {batchProgress.done}/{batchProgress.total}
+                        </Typography>
+                        <LinearProgress
+                            variant="determinate"
+                            value={batchProgress.total ? (batchProgress.done / batchProgress.total) * 100 : 0}
+                        />
+                    </Paper>
+                ) : (
+                    <SnackbarContent
+                        message={toast?.message}
+                        action={toast?.undo && (
+                            <Button color="secondary" size="small" onClick={handleUndo}>
+                                Undo
+                            </Button>
+                        )}
+                    />
+                )}
+            </Snackbar>
+
+            {/* Full-text Search Results */}
+            {showFullText && (
+                fullTextResults === null ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+                        <CircularProgress />
+                    </Box>
+                ) : fullTextResults.length === 0 ? (
+                    <Typography variant="h6" color="text.secondary" sx={{ textAlign: 'center', mt: 8 }}>
+                        Nothing in your library matches "{trimmedQuery}".
+                    </Typography>
+                ) : (
+                    <LibrarySearchResults query={trimmedQuery} results={fullTextResults} />
+                )
+            )}
+
             {/* Empty State */}
-            {filteredNovels.length === 0 && (
+            {!showFullText && filteredNovels.length === 0 && (
                 <Box sx={{ textAlign: 'center', mt: 8 }}>
                     <Typography variant="h6" color="text.secondary" gutterBottom>
-                        {searchQuery ? 'No novels match your search.' : 'Your library is empty.'}
+                        {searchQuery || activeFilterCount > 0
+                            ? 'No novels match your search or filters.'
+                            : 'Your library is empty.'}
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
-                        {!searchQuery && 'Browse sources to add novels to your library.'}
+                        {!searchQuery && activeFilterCount === 0 && 'Browse sources to add novels to your library.'}
                     </Typography>
-                    {!searchQuery && (
+                    {!searchQuery && activeFilterCount === 0 && (
                         <Button
                             variant="contained"
                             sx={{ mt: 2 }}
@@ -394,19 +838,13 @@ export default function Library() {
                 </Box>
             )}
 
-            {/* Grid View */}
-            {displayMode === 'grid' && (
+            {/* Grid Views */}
+            {!showFullText && displayMode !== 'list' && (
                 <Box
                     sx={{
                         display: 'grid',
-                        gridTemplateColumns: {
-                            xs: 'repeat(2, 1fr)',
-                            sm: 'repeat(3, 1fr)',
-                            md: 'repeat(4, 1fr)',
-                            lg: 'repeat(6, 1fr)',
-                            xl: 'repeat(8, 1fr)',
-                        },
-                        gap: 2,
+                        gridTemplateColumns: getGridColumns(columns, displayMode),
+                        gap: displayMode === 'grid' ? 2 : 1,
                     }}
                 >
                     {filteredNovels.map((novel) => (
@@ -426,14 +864,14 @@ export default function Library() {
                                     }}
                                 />
                             )}
-                            <NovelCard novel={novel} />
+                            <NovelCard novel={novel} variant={displayMode === 'grid' ? 'default' : displayMode} />
                         </Box>
                     ))}
                 </Box>
             )}
 
             {/* List View */}
-            {displayMode === 'list' && (
+            {!showFullText && displayMode === 'list' && (
                 <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
                     {filteredNovels.map((novel) => (
                         <Paper
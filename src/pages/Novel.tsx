@@ -1,9 +1,9 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
     Container, Typography, Box, CircularProgress, Button, List, ListItem,
     ListItemText, ListItemButton, Paper, Chip, Stack, Dialog, DialogTitle,
-    DialogContent, DialogActions
+    DialogContent, DialogActions, LinearProgress, TextField, Fab, Tooltip, AvatarGroup
 } from '@mui/material';
 import { Menu, MenuItem, Checkbox, IconButton } from '@mui/material';
 import { useRef } from 'react';
@@ -14,10 +14,43 @@ import TrackChangesIcon from '@mui/icons-material/TrackChanges';
 import DownloadIcon from '@mui/icons-material/Download';
 import DeleteIcon from '@mui/icons-material/Delete';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import StickyNote2Icon from '@mui/icons-material/StickyNote2';
+import SearchIcon from '@mui/icons-material/Search';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import FilterListIcon from '@mui/icons-material/FilterList';
+import SortIcon from '@mui/icons-material/Sort';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import BookmarkIcon from '@mui/icons-material/Bookmark';
+import DoneAllIcon from '@mui/icons-material/DoneAll';
+import RemoveDoneIcon from '@mui/icons-material/RemoveDone';
 
 import CloseIcon from '@mui/icons-material/Close';
 import axios from 'axios';
 import CategoryDialog from '../components/dialogs/CategoryDialog';
+import AnnotationsDialog from '../components/dialogs/AnnotationsDialog';
+import ChapterSearchDialog from '../components/dialogs/ChapterSearchDialog';
+import MigrationDialog from '../components/dialogs/MigrationDialog';
+import TrackerDialog from '../components/dialogs/TrackerDialog';
+import TrackerAvatar from '../components/TrackerAvatar';
+import { getTracker, getTrackEntries } from '../utils/trackers';
+import type { TrackerInfo } from '../utils/trackers';
+import { removeCachedChapters } from '../utils/offlineCache';
+import { findDuplicates, loadLibraryNovels } from '../utils/duplicates';
+import type { DuplicateNovel } from '../utils/duplicates';
+import {
+    chapterFilters,
+    chapterSorts,
+    filterAndSortChapters,
+    findChapterByNumber,
+    getResumeChapter,
+    loadChapterListSettings,
+    saveChapterListSettings,
+} from '../utils/chapterList';
+import type { ChapterFilter, ChapterListSettings } from '../utils/chapterList';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { setChaptersRead } from '../utils/readState';
 
 interface Chapter {
     id: number;
@@ -27,6 +60,7 @@ interface Chapter {
     chapterNumber?: number;
     isDownloaded: boolean;
     unread: boolean;
+    progress?: number;
 }
 
 interface NovelDetails {
@@ -43,6 +77,14 @@ interface NovelDetails {
     chapters?: Chapter[];
 }
 
+const CHAPTER_ROW_HEIGHT = 64;
+
+// Registered trackers the novel is bound to
+const loadTrackedBy = async (novelId: number) =>
+    (await getTrackEntries(novelId))
+        .map((entry) => getTracker(entry.tracker))
+        .filter((tracker): tracker is TrackerInfo => !!tracker);
+
 export default function Novel() {
     const { id, pluginId, novelUrl } = useParams();
     const navigate = useNavigate();
@@ -54,7 +96,24 @@ export default function Novel() {
     const [chapters, setChapters] = useState<Chapter[]>([]);
 
     const [trackerOpen, setTrackerOpen] = useState(false);
+    const [trackedBy, setTrackedBy] = useState<TrackerInfo[]>([]);
     const [categoryOpen, setCategoryOpen] = useState(false);
+    const [notesOpen, setNotesOpen] = useState(false);
+    const [searchOpen, setSearchOpen] = useState(false);
+    const [migrateOpen, setMigrateOpen] = useState(false);
+    // Library entries that look like this novel from another source, shown before adding
+    const [duplicates, setDuplicates] = useState<DuplicateNovel[]>([]);
+
+    // Chapter list controls
+    const [listSettings, setListSettings] = useState<ChapterListSettings>(loadChapterListSettings);
+    const [bookmarkedIds, setBookmarkedIds] = useState<Set<number>>(new Set());
+    const [lastReadId, setLastReadId] = useState<number | undefined>(undefined);
+    const [jumpValue, setJumpValue] = useState('');
+    const [jumpedId, setJumpedId] = useState<number | null>(null);
+    // Set when a jump lands on a filtered-out chapter; shows all chapters without touching the saved filters
+    const [filtersPaused, setFiltersPaused] = useState(false);
+    const [filterAnchor, setFilterAnchor] = useState<null | HTMLElement>(null);
+    const [sortAnchor, setSortAnchor] = useState<null | HTMLElement>(null);
 
     // Selection Mode State
     const [selectionMode, setSelectionMode] = useState(false);
@@ -75,6 +134,26 @@ export default function Novel() {
         fetchNovel();
     }, [id, pluginId, novelUrl]);
 
+    // Bookmarks (for the filter) and the last chapter read (for Resume) only exist for library novels
+    useEffect(() => {
+        if (!id) return;
+        axios.get(`/api/annotations?novelId=${id}`)
+            .then((res) => setBookmarkedIds(new Set(
+                (res.data || [])
+                    .filter((a: { type: string }) => a.type === 'bookmark')
+                    .map((a: { chapterId: number }) => a.chapterId)
+            )))
+            .catch((e) => console.error('Failed to load bookmarks:', e));
+        axios.get('/api/history')
+            .then((res) => setLastReadId(
+                (res.data || []).find((item: { novelId: number }) => item.novelId === Number(id))?.id
+            ))
+            .catch((e) => console.error('Failed to load history:', e));
+        loadTrackedBy(Number(id))
+            .then(setTrackedBy)
+            .catch((e) => console.error('Failed to load trackers:', e));
+    }, [id]);
+
     // ... (rest of methods)
 
     const fetchNovel = async () => {
@@ -104,9 +183,23 @@ export default function Novel() {
         }
     };
 
-    const toggleLibrary = async () => {
+    const toggleLibrary = async (skipDuplicateCheck = false) => {
         if (!novel) return;
+        setDuplicates([]);
         try {
+            if (!novel.inLibrary && !skipDuplicateCheck) {
+                // A failed check shouldn't block adding the novel
+                const library = await loadLibraryNovels().catch((e) => {
+                    console.error('Duplicate check failed:', e);
+                    return [];
+                });
+                const found = findDuplicates(novel, library);
+                if (found.length > 0) {
+                    setDuplicates(found);
+                    return;
+                }
+            }
+
             await axios.post('/api/library/manage', {
                 novelPath: novel.path,
                 pluginId: novel.pluginId
@@ -197,6 +290,7 @@ export default function Novel() {
                 pluginId: novel.pluginId,
                 chapters: toDelete
             });
+            removeCachedChapters(toDelete.map(c => c.id)).catch(() => { });
             alert(`Deleted ${toDelete.length} chapters`);
             setSelectionMode(false);
             setSelectedChapters(new Set());
@@ -208,6 +302,56 @@ export default function Novel() {
         }
     };
 
+    // --- Read State ---
+
+    // Updates the list right away and rolls back if the server rejects the change
+    const markChapters = async (targets: Chapter[], read: boolean) => {
+        if (!novel) return;
+        const changed = new Set(targets.filter(c => c.unread === read).map(c => c.id));
+        if (changed.size === 0) return;
+        setChapters(prev => prev.map(c => changed.has(c.id) ? { ...c, unread: !read } : c));
+        try {
+            await setChaptersRead(Array.from(changed), read, novel.id);
+        } catch (e) {
+            console.error(e);
+            setChapters(prev => prev.map(c => changed.has(c.id) ? { ...c, unread: read } : c));
+            alert('Failed to update read state');
+        }
+    };
+
+    const getSelected = () => chapters.filter(c => selectedChapters.has(c.path));
+
+    const exitSelection = () => {
+        setSelectionMode(false);
+        setSelectedChapters(new Set());
+    };
+
+    const handleMarkSelected = (read: boolean) => {
+        markChapters(getSelected(), read);
+        exitSelection();
+    };
+
+    // Everything between the first and last selected chapter, in source order
+    const handleMarkRangeRead = () => {
+        const indexes = chapters
+            .map((c, index) => selectedChapters.has(c.path) ? index : -1)
+            .filter(index => index !== -1);
+        if (indexes.length === 0) return;
+        markChapters(chapters.slice(Math.min(...indexes), Math.max(...indexes) + 1), true);
+        exitSelection();
+    };
+
+    const handleMarkPreviousRead = (chapter: Chapter) => {
+        const index = chapters.findIndex(c => c.id === chapter.id);
+        markChapters(chapters.slice(0, index), true);
+        setContextMenu(null);
+    };
+
+    const handleMarkAllRead = () => {
+        if (!confirm('Mark every chapter as read?')) return;
+        markChapters(chapters, true);
+    };
+
     // --- Interaction Handlers ---
 
     const handleChapterMouseDown = (e: React.MouseEvent, chapter: Chapter) => {
@@ -256,6 +400,54 @@ export default function Novel() {
 
     const isAllSelected = chapters.length > 0 && selectedChapters.size === chapters.length;
 
+    // --- Chapter List Controls ---
+
+    const visibleChapters = useMemo(
+        () => filterAndSortChapters(chapters, filtersPaused ? { ...listSettings, filters: [] } : listSettings, bookmarkedIds),
+        [chapters, listSettings, filtersPaused, bookmarkedIds]
+    );
+
+    const resumeChapter = useMemo(() => getResumeChapter(chapters, lastReadId), [chapters, lastReadId]);
+    const hasReadChapters = chapters.some((c) => !c.unread);
+
+    const { listRef, start, end, paddingTop, paddingBottom, scrollToIndex } = useVirtualList<HTMLUListElement>({
+        count: visibleChapters.length,
+        rowHeight: CHAPTER_ROW_HEIGHT,
+    });
+
+    const updateListSettings = (patch: Partial<ChapterListSettings>) => {
+        const next = { ...listSettings, ...patch };
+        setListSettings(next);
+        saveChapterListSettings(next);
+        if (patch.filters) setFiltersPaused(false);
+    };
+
+    const toggleFilter = (filter: ChapterFilter) => {
+        updateListSettings({
+            filters: listSettings.filters.includes(filter)
+                ? listSettings.filters.filter((f) => f !== filter)
+                : [...listSettings.filters, filter],
+        });
+    };
+
+    const handleJump = () => {
+        const number = parseFloat(jumpValue);
+        if (Number.isNaN(number)) return;
+        // Search all chapters so a filter can't hide the target
+        const target = findChapterByNumber(chapters, number);
+        if (!target) return;
+        let index = visibleChapters.indexOf(target);
+        if (index === -1) {
+            // Hidden by the filters: show everything for now, the saved filters stay as they are
+            setFiltersPaused(true);
+            index = filterAndSortChapters(chapters, { ...listSettings, filters: [] }, bookmarkedIds).indexOf(target);
+        }
+        setJumpedId(target.id);
+        setTimeout(() => setJumpedId(null), 2000);
+        // Wait for the list to re-render when filters were paused
+        requestAnimationFrame(() => scrollToIndex(index));
+    };
+
     // --- Render ---
 
     if (loading) {
@@ -350,7 +542,7 @@ export default function Novel() {
                             variant={novel.inLibrary ? "outlined" : "contained"}
                             size="large"
                             startIcon={novel.inLibrary ? <EditIcon /> : <BookmarkAddIcon />}
-                            onClick={toggleLibrary}
+                            onClick={() => toggleLibrary()}
                             sx={{ borderRadius: 8, px: 4 }}
                         >
                             {novel.inLibrary ? 'In Library' : 'Add to Library'}
@@ -360,12 +552,28 @@ export default function Novel() {
                                 <Button startIcon={<CategoryIcon />} onClick={() => setCategoryOpen(true)}>
                                     Category
                                 </Button>
-                                <Button startIcon={<TrackChangesIcon />} onClick={() => setTrackerOpen(true)}>
+                                <Button
+                                    startIcon={<TrackChangesIcon />}
+                                    endIcon={trackedBy.length > 0 && (
+                                        <AvatarGroup max={3} sx={{ '& .MuiAvatar-root': { width: 20, height: 20, fontSize: 9 } }}>
+                                            {trackedBy.map((tracker) => (
+                                                <TrackerAvatar key={tracker.id} tracker={tracker} size={20} />
+                                            ))}
+                                        </AvatarGroup>
+                                    )}
+                                    onClick={() => setTrackerOpen(true)}
+                                >
                                     Track
                                 </Button>
+                                <Button startIcon={<StickyNote2Icon />} onClick={() => setNotesOpen(true)}>
+                                    Notes
+                                </Button>
                                 <Button startIcon={<DownloadIcon />} onClick={handleDownload}>
                                     Download All
                                 </Button>
+                                <Button startIcon={<SwapHorizIcon />} onClick={() => setMigrateOpen(true)}>
+                                    Migrate
+                                </Button>
                             </>
                         )}
                     </Stack>
@@ -383,13 +591,58 @@ export default function Novel() {
 
             <Container maxWidth="xl" sx={{ mt: 4, px: { xs: 2, md: 4 } }}>
                 <Box sx={{ mt: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                    <Typography variant="h6">Chapters ({chapters.length})</Typography>
+                    <Typography variant="h6">
+                        Chapters ({visibleChapters.length === chapters.length ? chapters.length : `${visibleChapters.length}/${chapters.length}`})
+                    </Typography>
+                    {!selectionMode && novel.inLibrary && (
+                        <Box sx={{ display: 'flex', gap: 1 }}>
+                            <Button
+                                startIcon={<DoneAllIcon />}
+                                disabled={!chapters.some(c => c.unread)}
+                                onClick={handleMarkAllRead}
+                            >
+                                Mark All Read
+                            </Button>
+                            <Button
+                                startIcon={<SearchIcon />}
+                                disabled={!chapters.some(c => c.isDownloaded)}
+                                onClick={() => setSearchOpen(true)}
+                            >
+                                Search Text
+                            </Button>
+                        </Box>
+                    )}
                     {/* Selection Mode Toolbar */}
                     {selectionMode && (
-                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', justifyContent: 'flex-end', gap: 2 }}>
                             <Button onClick={handleSelectAll}>
                                 {isAllSelected ? 'Deselect All' : 'Select All'}
                             </Button>
+                            {novel.inLibrary && (
+                                <>
+                                    <Button
+                                        startIcon={<DoneAllIcon />}
+                                        disabled={selectedChapters.size === 0}
+                                        onClick={() => handleMarkSelected(true)}
+                                    >
+                                        Mark Read
+                                    </Button>
+                                    <Button
+                                        startIcon={<RemoveDoneIcon />}
+                                        disabled={selectedChapters.size === 0}
+                                        onClick={() => handleMarkSelected(false)}
+                                    >
+                                        Mark Unread
+                                    </Button>
+                                    <Tooltip title="Mark every chapter from the first to the last selected one as read">
+                                        <span>
+                                            <Button disabled={selectedChapters.size < 2} onClick={handleMarkRangeRead}>
+                                                Mark Range Read
+                                            </Button>
+                                        </span>
+                                    </Tooltip>
+                                </>
+                            )}
                             <Button
                                 variant="contained"
                                 startIcon={<DownloadIcon />}
@@ -407,20 +660,101 @@ export default function Novel() {
                             >
                                 Delete
                             </Button>
-                            <IconButton onClick={() => { setSelectionMode(false); setSelectedChapters(new Set()); }}>
+                            <IconButton onClick={exitSelection}>
                                 <CloseIcon />
                             </IconButton>
                         </Box>
                     )}
                 </Box>
 
+                {/* Chapter List Controls */}
+                <Box sx={{
+                    position: 'sticky',
+                    top: -24,
+                    zIndex: 2,
+                    bgcolor: 'background.default',
+                    display: 'flex',
+                    alignItems: 'center',
+                    flexWrap: 'wrap',
+                    gap: 1,
+                    py: 1,
+                }}>
+                    <Button
+                        size="small"
+                        startIcon={<FilterListIcon />}
+                        color={listSettings.filters.length > 0 ? 'primary' : 'inherit'}
+                        onClick={(e) => setFilterAnchor(e.currentTarget)}
+                    >
+                        Filter{listSettings.filters.length > 0 && ` (${listSettings.filters.length})`}
+                    </Button>
+                    {filtersPaused && (
+                        <Tooltip title="Showing all chapters to reach the jump target">
+                            <Chip size="small" label="Filters paused" onDelete={() => setFiltersPaused(false)} />
+                        </Tooltip>
+                    )}
+                    <Button size="small" color="inherit" startIcon={<SortIcon />} onClick={(e) => setSortAnchor(e.currentTarget)}>
+                        {chapterSorts.find((o) => o.value === listSettings.sortBy)?.label}
+                    </Button>
+                    <Tooltip title={listSettings.sortAsc ? 'Ascending' : 'Descending'}>
+                        <IconButton size="small" onClick={() => updateListSettings({ sortAsc: !listSettings.sortAsc })}>
+                            {listSettings.sortAsc ? <ArrowUpwardIcon fontSize="small" /> : <ArrowDownwardIcon fontSize="small" />}
+                        </IconButton>
+                    </Tooltip>
+                    <TextField
+                        size="small"
+                        type="number"
+                        placeholder="Jump to chapter"
+                        value={jumpValue}
+                        onChange={(e) => setJumpValue(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleJump()}
+                        sx={{ ml: 'auto', width: 170 }}
+                    />
+                </Box>
+
+                <Menu anchorEl={filterAnchor} open={Boolean(filterAnchor)} onClose={() => setFilterAnchor(null)}>
+                    {chapterFilters.map((option) => (
+                        <MenuItem
+                            key={option.value}
+                            dense
+                            disabled={option.value === 'bookmarked' && !isLibraryNovel}
+                            onClick={() => toggleFilter(option.value)}
+                        >
+                            <Checkbox size="small" checked={listSettings.filters.includes(option.value)} sx={{ p: 0, mr: 1 }} />
+                            {option.label}
+                        </MenuItem>
+                    ))}
+                </Menu>
+
+                <Menu anchorEl={sortAnchor} open={Boolean(sortAnchor)} onClose={() => setSortAnchor(null)}>
+                    {chapterSorts.map((option) => (
+                        <MenuItem
+                            key={option.value}
+                            selected={listSettings.sortBy === option.value}
+                            onClick={() => {
+                                updateListSettings({ sortBy: option.value });
+                                setSortAnchor(null);
+                            }}
+                        >
+                            {option.label}
+                        </MenuItem>
+                    ))}
+                </Menu>
+
                 <Paper sx={{ mt: 1 }}>
-                    <List>
-                        {chapters.map((chapter) => (
+                    {visibleChapters.length === 0 && (
+                        <Typography color="text.secondary" sx={{ p: 3, textAlign: 'center' }}>
+                            {chapters.length === 0 ? 'No chapters.' : 'No chapters match the filters.'}
+                        </Typography>
+                    )}
+                    {/* Only the rows on screen are rendered; spacers keep the scroll height */}
+                    <List ref={listRef} disablePadding>
+                        <Box component="li" sx={{ height: paddingTop }} />
+                        {visibleChapters.slice(start, end).map((chapter) => (
                             <ListItem
                                 key={chapter.path}
                                 divider
                                 disablePadding
+                                sx={{ height: CHAPTER_ROW_HEIGHT, bgcolor: jumpedId === chapter.id ? 'action.selected' : undefined }}
                                 onMouseDown={(e) => handleChapterMouseDown(e, chapter)}
                                 onMouseUp={handleChapterMouseUp}
                                 onMouseLeave={handleChapterMouseUp}
@@ -429,6 +763,7 @@ export default function Novel() {
                                 <ListItemButton
                                     onClick={() => openChapter(chapter)}
                                     selected={selectedChapters.has(chapter.path)}
+                                    sx={{ height: '100%' }}
                                 >
                                     {/* Selection Circle */}
                                     {selectionMode && (
@@ -445,25 +780,85 @@ export default function Novel() {
                                         <CheckCircleIcon color="success" fontSize="small" sx={{ mr: 1 }} />
                                     )}
 
+                                    {bookmarkedIds.has(chapter.id) && (
+                                        <BookmarkIcon color="primary" fontSize="small" sx={{ mr: 1 }} />
+                                    )}
+
                                     <ListItemText
                                         primary={chapter.name}
-                                        secondary={chapter.releaseTime}
+                                        secondary={
+                                            <>
+                                                {chapter.releaseTime}
+                                                {/* Partially read chapters show how far in the reader got */}
+                                                {chapter.unread && !!chapter.progress && chapter.progress < 100 && (
+                                                    <LinearProgress
+                                                        variant="determinate"
+                                                        value={chapter.progress}
+                                                        sx={{ display: 'block', mt: 0.5, maxWidth: 200, borderRadius: 1 }}
+                                                    />
+                                                )}
+                                            </>
+                                        }
+                                        slotProps={{
+                                            primary: { noWrap: true },
+                                            secondary: { component: 'div', noWrap: true },
+                                        }}
                                         sx={{ color: chapter.unread ? 'text.primary' : 'text.disabled' }}
                                     />
                                 </ListItemButton>
                             </ListItem>
                         ))}
+                        <Box component="li" sx={{ height: paddingBottom }} />
                     </List>
                 </Paper>
             </Container>
 
-            <Dialog open={trackerOpen} onClose={() => setTrackerOpen(false)}>
-                <DialogTitle>Trackers</DialogTitle>
-                <DialogContent>
-                    <Typography>MyAnimeList / Anilist integration coming soon.</Typography>
+            {/* Resume Button */}
+            {!selectionMode && resumeChapter && (
+                <Fab
+                    variant="extended"
+                    color="primary"
+                    onClick={() => openChapter(resumeChapter)}
+                    sx={{ position: 'fixed', bottom: 24, right: 24, maxWidth: 'calc(100vw - 48px)', zIndex: 10 }}
+                >
+                    <PlayArrowIcon sx={{ mr: 1 }} />
+                    <Box component="span" sx={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {hasReadChapters ? 'Resume' : 'Start'}: {resumeChapter.name}
+                    </Box>
+                </Fab>
+            )}
+
+            {novel.inLibrary && (
+                <TrackerDialog
+                    open={trackerOpen}
+                    onClose={() => {
+                        setTrackerOpen(false);
+                        loadTrackedBy(novel.id)
+                            .then(setTrackedBy)
+                            .catch((e) => console.error('Failed to load trackers:', e));
+                    }}
+                    novelId={novel.id}
+                    novelTitle={novel.name}
+                />
+            )}
+
+            <Dialog open={duplicates.length > 0} onClose={() => setDuplicates([])} fullWidth maxWidth="xs">
+                <DialogTitle>Possible Duplicate</DialogTitle>
+                <DialogContent dividers sx={{ p: 0 }}>
+                    <Typography variant="body2" sx={{ px: 2, pt: 2 }}>
+                        Your library already has a novel that looks like this one:
+                    </Typography>
+                    <List dense>
+                        {duplicates.map((d) => (
+                            <ListItemButton key={d.id} onClick={() => { setDuplicates([]); navigate(`/novel/${d.id}`); }}>
+                                <ListItemText primary={d.name} secondary={[d.pluginId, d.author].filter(Boolean).join(' · ')} />
+                            </ListItemButton>
+                        ))}
+                    </List>
                 </DialogContent>
                 <DialogActions>
-                    <Button onClick={() => setTrackerOpen(false)}>Close</Button>
+                    <Button onClick={() => setDuplicates([])}>Cancel</Button>
+                    <Button variant="contained" onClick={() => toggleLibrary(true)}>Add Anyway</Button>
                 </DialogActions>
             </Dialog>
 
@@ -475,6 +870,33 @@ export default function Novel() {
                 />
             )}
 
+            {novel.inLibrary && (
+                <AnnotationsDialog
+                    open={notesOpen}
+                    onClose={() => setNotesOpen(false)}
+                    novelId={novel.id}
+                    chapters={chapters}
+                />
+            )}
+
+            {novel.inLibrary && (
+                <ChapterSearchDialog
+                    open={searchOpen}
+                    onClose={() => setSearchOpen(false)}
+                    novelId={novel.id}
+                    chapters={chapters}
+                />
+            )}
+
+            {novel.inLibrary && (
+                <MigrationDialog
+                    open={migrateOpen}
+                    onClose={() => setMigrateOpen(false)}
+                    novelIds={[novel.id]}
+                    onMigrated={([novelId]) => navigate(`/novel/${novelId}`, { replace: true })}
+                />
+            )}
+
             {/* Context Menu */}
             <Menu
                 open={contextMenu !== null}
@@ -499,13 +921,27 @@ export default function Novel() {
                 {contextMenu?.chapter.isDownloaded && (
                     <MenuItem onClick={handleDelete}>Delete</MenuItem>
                 )}
+                {novel.inLibrary && contextMenu && [
+                    <MenuItem
+                        key="toggle-read"
+                        onClick={() => {
+                            markChapters([contextMenu.chapter], contextMenu.chapter.unread);
+                            setContextMenu(null);
+                        }}
+                    >
+                        {contextMenu.chapter.unread ? 'Mark as Read' : 'Mark as Unread'}
+                    </MenuItem>,
+                    <MenuItem key="previous-read" onClick={() => handleMarkPreviousRead(contextMenu.chapter)}>
+                        Mark Previous as Read
+                    </MenuItem>,
+                ]}
                 <MenuItem onClick={() => {
                     setSelectionMode(true);
                     if (contextMenu) {
                         toggleSelection(contextMenu.chapter);
                     }
                     setContextMenu(null);
-                }}>Select to Download</MenuItem>
+                }}>Select</MenuItem>
             </Menu>
 
         </Box>
@@ -2,14 +2,23 @@
  * Reader Page - Complete Rewrite
  * 
  * Features:
- * - Full settings panel integration
+ * - Full settings panel integration, with per-novel overrides
+ * - Quick switching between saved reader profiles
  * - Chapter prefetching (next 2 chapters)
- * - Keyboard navigation (←/→/Esc/Space)
- * - Reading position persistence (scroll %)
+ * - Scroll, paginated and continuous (chained chapters) reading modes
+ * - Text-to-speech with paragraph highlighting
+ * - Hands-free auto-scroll (px/s or words per minute), paused by tap or hover
+ * - Highlights, notes and paragraph bookmarks
+ * - Find in chapter with next/previous match (also opened from Novel search results)
+ * - Chapter HTML sanitization (skipped for trusted sources)
+ * - Text replacement rules (global and per novel)
+ * - Configurable keyboard shortcuts
+ * - Reading position persistence (scroll % or page), synced to the server
+ * - Marks chapters read past a threshold or on moving to the next one
  * - Suwayomi-style UI
  */
 
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import {
     AppBar,
@@ -21,14 +30,45 @@ import {
     Button,
     Fade,
     Tooltip,
+    Slider,
 } from '@mui/material';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 import SettingsIcon from '@mui/icons-material/Settings';
 import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
 import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import RecordVoiceOverIcon from '@mui/icons-material/RecordVoiceOver';
+import PauseIcon from '@mui/icons-material/Pause';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import StopIcon from '@mui/icons-material/Stop';
+import BookmarkAddIcon from '@mui/icons-material/BookmarkAdd';
+import SearchIcon from '@mui/icons-material/Search';
 import axios from 'axios';
 import ReaderSettingsPanel, { defaultSettings } from '../components/reader/ReaderSettingsPanel';
-import type { ReaderSettings } from '../components/reader/ReaderSettingsPanel';
+import type { ReaderSettings, ReaderSettingsOverrides } from '../components/reader/ReaderSettingsPanel';
+import PagedReader from '../components/reader/PagedReader';
+import ContinuousReader from '../components/reader/ContinuousReader';
+import ReaderProfileMenu from '../components/reader/ReaderProfileMenu';
+import {
+    fetchReadingPosition,
+    flushReadingPositions,
+    saveReadingPosition,
+    positionToPage,
+} from '../utils/readingPosition';
+import { useTextToSpeech, getSpeakableParagraphs, isSpeechSupported } from '../hooks/useTextToSpeech';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { autoScrollRanges, useAutoScroll } from '../hooks/useAutoScroll';
+import SelectionToolbar from '../components/reader/SelectionToolbar';
+import AnnotationDialog from '../components/reader/AnnotationDialog';
+import ReaderFindBar from '../components/reader/ReaderFindBar';
+import { clearMatches, findMatchOffsets, highlightMatches, htmlToText } from '../utils/chapterSearch';
+import { applyAnnotations, describeParagraph, describeRange } from '../utils/annotations';
+import type { Annotation, AnnotationColor, AnnotationDraft } from '../utils/annotations';
+import { prepareChapterHtml } from '../utils/chapterContent';
+import type { ReplacementRule } from '../utils/replacements';
+import { loadProfiles, toSettingsPayload } from '../utils/readerProfiles';
+import { loadTrustedSources, setSourceTrusted } from '../utils/trustedSources';
+import { defaultCompletionSettings, finishChapter, parseCompletionSettings } from '../utils/readerCompletion';
+import type { ReaderProfile, ReaderProfileValues } from '../utils/readerProfiles';
 
 interface Chapter {
     id: number;
@@ -36,6 +76,7 @@ interface Chapter {
     path: string;
     content?: string;
     novelId?: number;
+    pluginId?: string;
     chapterNumber?: number;
 }
 
@@ -44,8 +85,25 @@ interface ChapterNavInfo {
     nextChapter?: Chapter;
 }
 
-// Storage key for reading position
-const getPositionKey = (chapterId: number | string) => `reading_position_${chapterId}`;
+// Index of the first element on screen (works for both scroll and paged layouts)
+const getFirstVisibleIndex = (elements: HTMLElement[]) =>
+    elements.findIndex((el) => {
+        const rect = el.getBoundingClientRect();
+        return rect.bottom > 0 && rect.left >= 0 && rect.left < window.innerWidth;
+    });
+
+type AnnotationDialogState =
+    | { mode: 'create'; range: Range; quote: string }
+    | { mode: 'edit'; annotation: Annotation };
+
+const getNavInfo = (chapters: Chapter[], current: Chapter): ChapterNavInfo => {
+    const index = chapters.findIndex((c) => c.id === current.id);
+    if (index === -1) return {};
+    return {
+        prevChapter: index > 0 ? chapters[index - 1] : undefined,
+        nextChapter: index < chapters.length - 1 ? chapters[index + 1] : undefined,
+    };
+};
 
 export default function Reader() {
     const { novelId, chapterId } = useParams();
@@ -55,6 +113,8 @@ export default function Reader() {
     const qChapterPath = searchParams.get('chapterPath');
     const qNovelPath = searchParams.get('novelPath');
     const qPluginId = searchParams.get('pluginId');
+    const qAnnotationId = searchParams.get('annotation');
+    const qSearch = searchParams.get('search');
 
     // State
     const [chapter, setChapter] = useState<Chapter | null>(null);
@@ -63,95 +123,496 @@ export default function Reader() {
     const [error, setError] = useState<string | null>(null);
     const [showOverlay, setShowOverlay] = useState(true);
     const [settingsOpen, setSettingsOpen] = useState(false);
-    const [settings, setSettings] = useState<ReaderSettings>(defaultSettings);
+    const [globalSettings, setGlobalSettings] = useState<ReaderSettings>(defaultSettings);
+    const [novelOverrides, setNovelOverrides] = useState<ReaderSettingsOverrides>({});
+    const settings = useMemo(() => ({ ...globalSettings, ...novelOverrides }), [globalSettings, novelOverrides]);
+    const [profiles, setProfiles] = useState<ReaderProfile[]>([]);
+
+    // Paged mode state
+    const [page, setPage] = useState(0);
+    const [pageCount, setPageCount] = useState(1);
+
+    // Continuous mode state
+    const [chapterList, setChapterList] = useState<Chapter[]>([]);
+    const [chain, setChain] = useState<Chapter[]>([]);
+    const [loadingMore, setLoadingMore] = useState(false);
+
+    // Annotation state
+    const [annotations, setAnnotations] = useState<Annotation[]>([]);
+    const [selectionRect, setSelectionRect] = useState<DOMRect | null>(null);
+    const [annotationDialog, setAnnotationDialog] = useState<AnnotationDialogState | null>(null);
+
+    // Auto-scroll state; paused while the overlay is shown or the mouse rests on the text
+    const [autoScroll, setAutoScroll] = useState(false);
+    const [autoScrollPaused, setAutoScrollPaused] = useState(false);
+    const [hoverPaused, setHoverPaused] = useState(false);
+
+    // Find in chapter; a search result link opens it on a given match
+    const [findOpen, setFindOpen] = useState(!!qSearch);
+    const [findQuery, setFindQuery] = useState(qSearch || '');
+    const [findIndex, setFindIndex] = useState(() => parseInt(searchParams.get('match') || '0', 10) || 0);
+
+    // Text replacement rules (all scopes, filtered per chapter)
+    const [replacementRules, setReplacementRules] = useState<ReplacementRule[]>([]);
+
+    const [trustedSources, setTrustedSources] = useState<string[]>([]);
+    const sourceId = chapter?.pluginId || qPluginId;
+
+    // Chapter HTML as rendered: sanitized unless the source is trusted, then replacement rules
+    const prepareContent = useCallback((ch: Chapter) => {
+        return prepareChapterHtml(
+            ch.content || '',
+            { novelId: ch.novelId, pluginId: ch.pluginId || qPluginId },
+            { trustedSources, rules: replacementRules }
+        );
+    }, [qPluginId, trustedSources, replacementRules]);
+
+    const chapterHtml = useMemo(() => (chapter ? prepareContent(chapter) : ''), [chapter, prepareContent]);
+    const renderedChain = useMemo(
+        () => chain.map((ch) => ({ ...ch, content: ch.content && prepareContent(ch) })),
+        [chain, prepareContent]
+    );
+
+    const findCount = useMemo(
+        () => (findOpen ? findMatchOffsets(htmlToText(chapterHtml), findQuery).length : 0),
+        [findOpen, chapterHtml, findQuery]
+    );
+    // Wraps around in both directions
+    const activeMatch = findCount > 0 ? ((findIndex % findCount) + findCount) % findCount : 0;
+
+    const isPaged = settings.readingMode === 'paged';
+    const isContinuous = settings.readingMode === 'continuous';
 
     // Refs
     const contentRef = useRef<HTMLDivElement>(null);
     const prefetchedChapters = useRef<Map<string, Chapter>>(new Map());
     const lastScrollSave = useRef<number>(0);
+    const completionSettings = useRef(defaultCompletionSettings);
+    // Chapters already marked read during this visit
+    const finishedChapters = useRef<Set<number>>(new Set());
+    // Set when the URL changes because a chained chapter scrolled into view
+    const skipNextFetch = useRef(false);
+    const chapterFromChain = useRef(false);
+    // Set when speech reached the end of a chapter and should carry on in the next one
+    const continueSpeech = useRef(false);
+    const selectionRange = useRef<Range | null>(null);
+    const revealedAnnotation = useRef<string | null>(null);
+    // The first match from a search link is revealed after the saved position is restored
+    const delaySearchReveal = useRef(!!qSearch);
+
+    const handleSpeechFinished = () => {
+        if (navInfo.nextChapter) {
+            continueSpeech.current = true;
+            navigateToChapter(navInfo.nextChapter);
+        }
+    };
+
+    const tts = useTextToSpeech({
+        voiceURI: settings.ttsVoice,
+        rate: settings.ttsRate,
+        pitch: settings.ttsPitch,
+        onFinished: handleSpeechFinished,
+    });
+    const { stop: stopSpeech, start: startTts } = tts;
+
+    const getContentRoot = useCallback((): HTMLElement | null => {
+        if (isPaged) return document.querySelector<HTMLElement>('.reader-paged');
+        if (isContinuous && chapter) {
+            return document.querySelector<HTMLElement>(`[data-chapter-content="${chapter.id}"]`);
+        }
+        return contentRef.current;
+    }, [isPaged, isContinuous, chapter]);
+
+    // Start from the first paragraph on screen, or the top of the chapter
+    const startSpeech = useCallback((fromVisible: boolean) => {
+        const paragraphs = getSpeakableParagraphs(getContentRoot());
+        const startIndex = fromVisible ? getFirstVisibleIndex(paragraphs) : 0;
+        startTts(paragraphs, Math.max(0, startIndex));
+    }, [getContentRoot, startTts]);
+
+    // Mark a library chapter read (once per visit) and run the finish actions from Settings → Reader
+    const markFinished = useCallback((finished: Chapter | null | undefined) => {
+        if (!finished?.id || !finished.novelId || finishedChapters.current.has(finished.id)) return;
+        finishedChapters.current.add(finished.id);
+        finishChapter({ ...finished, novelId: finished.novelId }, completionSettings.current).catch((e) => {
+            finishedChapters.current.delete(finished.id);
+            console.error('Failed to mark chapter read:', e);
+        });
+    }, []);
 
     // Load settings on mount
     useEffect(() => {
         loadSettings();
+        loadReplacementRules();
+        loadProfiles()
+            .then(setProfiles)
+            .catch((e) => console.error('Failed to load reader profiles:', e));
+        loadTrustedSources()
+            .then(setTrustedSources)
+            .catch((e) => console.error('Failed to load trusted sources:', e));
     }, []);
 
+    // Load the novel's own overrides on top of the global settings
+    useEffect(() => {
+        setNovelOverrides({});
+        if (!chapter?.novelId) return;
+
+        let cancelled = false;
+        axios.get(`/api/settings/reader/novel/${chapter.novelId}`)
+            .then((res) => {
+                if (!cancelled) setNovelOverrides(res.data || {});
+            })
+            .catch((e) => console.error('Failed to load novel reader settings:', e));
+        return () => {
+            cancelled = true;
+        };
+    }, [chapter?.novelId]);
+
     // Fetch chapter when ID changes
     useEffect(() => {
+        if (skipNextFetch.current) {
+            skipNextFetch.current = false;
+            return;
+        }
+        stopSpeech();
         fetchChapter();
         window.scrollTo(0, 0);
-    }, [novelId, chapterId, qChapterPath, qPluginId]);
+    }, [novelId, chapterId, qChapterPath, qPluginId, stopSpeech]);
 
-    // Keyboard navigation
+    // Keep the document title in sync with the chapter in view
     useEffect(() => {
-        const handleKeyDown = (e: KeyboardEvent) => {
-            // Ignore if typing in input
-            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
-                return;
-            }
+        if (!chapter?.name) return;
+        const previousTitle = document.title;
+        document.title = chapter.name;
+        return () => {
+            document.title = previousTitle;
+        };
+    }, [chapter?.name]);
 
-            switch (e.key) {
-                case 'ArrowLeft':
-                    if (navInfo.prevChapter) {
-                        navigateToChapter(navInfo.prevChapter);
-                    }
-                    break;
-                case 'ArrowRight':
-                    if (navInfo.nextChapter) {
-                        navigateToChapter(navInfo.nextChapter);
-                    }
-                    break;
-                case 'Escape':
-                    handleBack();
-                    break;
-                case ' ':
-                    e.preventDefault();
-                    setShowOverlay((prev) => !prev);
-                    break;
+    // Keyboard shortcuts (configurable in Settings → Keyboard)
+    useKeyboardShortcuts('reader', {
+        scrollDown: () => scrollByScreen(1),
+        scrollUp: () => scrollByScreen(-1),
+        nextChapter: () => {
+            if (isPaged) {
+                turnPage(1);
+            } else if (navInfo.nextChapter) {
+                navigateToChapter(navInfo.nextChapter);
             }
-        };
+        },
+        prevChapter: () => {
+            if (isPaged) {
+                turnPage(-1);
+            } else if (navInfo.prevChapter) {
+                navigateToChapter(navInfo.prevChapter);
+            }
+        },
+        toggleOverlay: () => {
+            setAutoScrollPaused(!showOverlay);
+            setShowOverlay(!showOverlay);
+        },
+        openSettings: () => setSettingsOpen(true),
+        fontSizeUp: () => changeFontSize(1),
+        fontSizeDown: () => changeFontSize(-1),
+        toggleSpeech: () => isSpeechSupported() && toggleSpeech(),
+        toggleAutoScroll: () => toggleAutoScroll(),
+        bookmark: () => chapter?.novelId && toggleBookmark(false),
+        find: () => setFindOpen(true),
+        back: () => {
+            // Esc closes the find bar, settings drawer and dialogs first
+            if (findOpen) {
+                setFindOpen(false);
+            } else if (!settingsOpen && !annotationDialog) {
+                handleBack();
+            }
+        },
+    });
 
-        window.addEventListener('keydown', handleKeyDown);
-        return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [navInfo]);
+    // Auto-scroll: the speed is re-read while scrolling, so slider changes apply right away
+    useAutoScroll({
+        active: autoScroll
+            && !isPaged
+            && !autoScrollPaused
+            && !(hoverPaused && settings.autoScrollPauseOnHover)
+            && !loading
+            && !settingsOpen
+            && !annotationDialog
+            && !selectionRect,
+        getSpeed: () => getAutoScrollSpeed(),
+        onEnd: () => handleAutoScrollEnd(),
+        restartKey: `${chapter?.id}:${chain.length}`,
+    });
+
+    // Track whether the mouse rests on the text (touch taps go through toggleOverlay instead)
+    useEffect(() => {
+        if (!autoScroll) return;
+        const handlePointerOver = (e: PointerEvent) => {
+            if (e.pointerType !== 'mouse') return;
+            setHoverPaused(e.target instanceof Element && !!e.target.closest('.reader-content'));
+        };
+        window.addEventListener('pointerover', handlePointerOver);
+        return () => window.removeEventListener('pointerover', handlePointerOver);
+    }, [autoScroll]);
 
     // Save scroll position on scroll
     useEffect(() => {
+        if (isPaged || isContinuous) return;
+
         const handleScroll = () => {
+            const scrollPercent = window.scrollY / (document.body.scrollHeight - window.innerHeight);
+            // Checked before the throttle so stopping right at the end still counts
+            if (scrollPercent * 100 >= completionSettings.current.markReadThreshold) markFinished(chapter);
+
             const now = Date.now();
             if (now - lastScrollSave.current < 1000) return; // Throttle to 1s
             lastScrollSave.current = now;
 
-            const scrollPercent = window.scrollY / (document.body.scrollHeight - window.innerHeight);
-            const key = getPositionKey(chapterId || qChapterPath || '');
-            if (key && !isNaN(scrollPercent)) {
-                localStorage.setItem(key, String(Math.round(scrollPercent * 100)));
+            const key = chapter?.id || qChapterPath;
+            if (key && isFinite(scrollPercent)) {
+                saveReadingPosition(key, { percent: scrollPercent * 100 });
             }
         };
 
         window.addEventListener('scroll', handleScroll, { passive: true });
         return () => window.removeEventListener('scroll', handleScroll);
-    }, [chapterId, qChapterPath]);
+    }, [chapter, qChapterPath, isPaged, isContinuous, markFinished]);
+
+    // Push unsynced positions when leaving a chapter or hiding the tab
+    useEffect(() => {
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') flushReadingPositions();
+        };
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => {
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+            flushReadingPositions();
+        };
+    }, [chapter?.id]);
 
     // Restore scroll position after content loads
     useEffect(() => {
-        if (chapter?.content && !loading) {
-            const key = getPositionKey(chapter.id || qChapterPath || '');
-            const savedPosition = localStorage.getItem(key);
-            if (savedPosition) {
-                const percent = parseInt(savedPosition, 10) / 100;
+        if (chapterFromChain.current) {
+            chapterFromChain.current = false;
+            return;
+        }
+        if (chapter?.content && !loading && !isPaged) {
+            let cancelled = false;
+            fetchReadingPosition(chapter.id || qChapterPath || '').then((savedPosition) => {
+                if (cancelled || !savedPosition) return;
+                const percent = savedPosition.percent / 100;
                 setTimeout(() => {
                     const scrollY = percent * (document.body.scrollHeight - window.innerHeight);
                     window.scrollTo({ top: scrollY, behavior: 'smooth' });
                 }, 100);
+            });
+            return () => {
+                cancelled = true;
+            };
+        }
+    }, [chapter?.content, loading, isPaged]);
+
+    // Resume speech in the next chapter once it has rendered
+    useEffect(() => {
+        if (continueSpeech.current && chapter?.content && !loading) {
+            continueSpeech.current = false;
+            startSpeech(false);
+        }
+    }, [chapter?.content, loading, startSpeech]);
+
+    // Highlight the paragraph being spoken and keep it on screen
+    useEffect(() => {
+        const el = tts.activeElement;
+        if (!el) return;
+
+        el.classList.add('tts-active');
+        revealElement(el);
+        return () => el.classList.remove('tts-active');
+    }, [tts.activeElement]);
+
+    // Load annotations for library chapters
+    useEffect(() => {
+        setAnnotations([]);
+        if (!chapter?.id || !chapter.novelId) return;
+
+        let cancelled = false;
+        axios.get(`/api/annotations?chapterId=${chapter.id}`)
+            .then((res) => {
+                if (!cancelled) setAnnotations(res.data || []);
+            })
+            .catch((e) => console.error('Failed to load annotations:', e));
+        return () => {
+            cancelled = true;
+        };
+    }, [chapter?.id, chapter?.novelId]);
+
+    // Re-anchor annotations whenever the content is rendered, then jump to a linked one
+    useEffect(() => {
+        if (loading || !chapterHtml) return;
+        const root = getContentRoot();
+        if (!root) return;
+
+        const anchors = applyAnnotations(root, annotations);
+        const target = qAnnotationId ? anchors.get(Number(qAnnotationId)) : undefined;
+        if (target && revealedAnnotation.current !== qAnnotationId) {
+            revealedAnnotation.current = qAnnotationId;
+            // After the saved position has been restored
+            setTimeout(() => revealElement(target), 400);
+        }
+    }, [annotations, chapterHtml, loading, qAnnotationId, getContentRoot]);
+
+    // Highlight find matches and bring the current one on screen
+    useEffect(() => {
+        if (loading || !chapterHtml) return;
+        const root = getContentRoot();
+        if (!root) return;
+        if (!findOpen) {
+            clearMatches(root);
+            return;
+        }
+
+        const current = highlightMatches(root, findQuery)[activeMatch];
+        if (!current?.length) return;
+        current.forEach((mark) => mark.classList.add('search-match-current'));
+        const timer = setTimeout(() => revealElement(current[0]), delaySearchReveal.current ? 400 : 0);
+        delaySearchReveal.current = false;
+        return () => clearTimeout(timer);
+    }, [findOpen, findQuery, activeMatch, chapterHtml, loading, getContentRoot]);
+
+    // Show the annotation toolbar for selections inside the chapter
+    useEffect(() => {
+        const handleSelectionChange = () => {
+            const selection = window.getSelection();
+            const root = getContentRoot();
+            if (!selection || selection.isCollapsed || !selection.rangeCount || !root || !chapter?.novelId) {
+                selectionRange.current = null;
+                setSelectionRect(null);
+                return;
+            }
+
+            const range = selection.getRangeAt(0);
+            if (!root.contains(range.commonAncestorContainer)) {
+                selectionRange.current = null;
+                setSelectionRect(null);
+                return;
+            }
+            selectionRange.current = range.cloneRange();
+            setSelectionRect(range.getBoundingClientRect());
+        };
+
+        document.addEventListener('selectionchange', handleSelectionChange);
+        return () => document.removeEventListener('selectionchange', handleSelectionChange);
+    }, [chapter?.novelId, getContentRoot]);
+
+    // Clicking a highlight opens it for editing instead of toggling the overlay / turning the page
+    useEffect(() => {
+        const handleClick = (e: MouseEvent) => {
+            const mark = (e.target as HTMLElement | null)?.closest<HTMLElement>('mark.annotation-highlight');
+            if (!mark) return;
+            const annotation = annotations.find((a) => String(a.id) === mark.dataset.annotationId);
+            if (!annotation) return;
+
+            e.stopPropagation();
+            setAnnotationDialog({ mode: 'edit', annotation });
+        };
+
+        document.addEventListener('click', handleClick, true);
+        return () => document.removeEventListener('click', handleClick, true);
+    }, [annotations]);
+
+    const pagePositionKey = chapter?.id || qChapterPath || '';
+
+    // Restore the saved page on first layout, keep the page in range on re-layout
+    const handlePageLayout = useCallback((count: number, initial: boolean) => {
+        setPageCount(count);
+        if (initial) {
+            setPage(0);
+            fetchReadingPosition(pagePositionKey).then((savedPosition) => {
+                if (savedPosition) setPage(positionToPage(savedPosition, count));
+            });
+        } else {
+            setPage((prev) => Math.min(prev, count - 1));
+        }
+    }, [pagePositionKey]);
+
+    const scrollByScreen = (direction: 1 | -1) => {
+        if (isPaged) {
+            turnPage(direction);
+        } else {
+            window.scrollBy({ top: direction * window.innerHeight * 0.9, behavior: 'smooth' });
+        }
+    };
+
+    // Change values where they come from: the novel's overrides if set there, else the global settings
+    const updateReaderValues = async (patch: Partial<ReaderSettings>, persist = true) => {
+        const inNovel = !!chapter?.novelId && Object.keys(patch).every((key) => key in novelOverrides);
+        const next = { ...novelOverrides, ...patch };
+        if (inNovel) {
+            setNovelOverrides(next);
+        } else {
+            setGlobalSettings((prev) => ({ ...prev, ...patch }));
+        }
+        if (!persist) return;
+
+        try {
+            if (inNovel) {
+                await axios.post(`/api/settings/reader/novel/${chapter?.novelId}`, next);
+            } else {
+                await axios.post('/api/settings/reader', Object.fromEntries(
+                    Object.entries(patch).map(([key, value]) => [key, String(value)])
+                ));
+            }
+        } catch (e) {
+            console.error('Failed to save reader settings:', e);
+        }
+    };
+
+    const changeFontSize = (delta: number) => {
+        const fontSize = Math.min(32, Math.max(12, settings.fontSize + delta));
+        if (fontSize !== settings.fontSize) updateReaderValues({ fontSize });
+    };
+
+    // Apply a profile where the novel's look comes from: its overrides if it has any, else the global settings
+    const applyProfile = async (values: ReaderProfileValues) => {
+        try {
+            if (chapter?.novelId && Object.keys(novelOverrides).length > 0) {
+                const next = { ...novelOverrides, ...values };
+                setNovelOverrides(next);
+                await axios.post(`/api/settings/reader/novel/${chapter.novelId}`, next);
+            } else {
+                setGlobalSettings((prev) => ({ ...prev, ...values }));
+                await axios.post('/api/settings/reader', toSettingsPayload(values));
             }
+        } catch (e) {
+            console.error('Failed to apply reader profile:', e);
+        }
+    };
+
+    const handleSourceTrustedChange = async (trusted: boolean) => {
+        if (!sourceId) return;
+        try {
+            setTrustedSources(await setSourceTrusted(sourceId, trusted));
+        } catch (e) {
+            console.error('Failed to update trusted sources:', e);
         }
-    }, [chapter?.content, loading]);
+    };
+
+    const loadReplacementRules = async () => {
+        try {
+            const res = await axios.get('/api/replacements');
+            setReplacementRules(res.data || []);
+        } catch (e) {
+            console.error('Failed to load replacement rules:', e);
+        }
+    };
 
     const loadSettings = async () => {
         try {
             const res = await axios.get('/api/settings/reader');
             const data = res.data;
-            setSettings({
+            setGlobalSettings({
+                readingMode: ['scroll', 'paged', 'continuous'].includes(data['reader.readingMode'])
+                    ? data['reader.readingMode']
+                    : defaultSettings.readingMode,
                 fontFamily: data['reader.fontFamily'] || defaultSettings.fontFamily,
                 fontSize: parseInt(data['reader.fontSize']) || defaultSettings.fontSize,
                 lineHeight: parseFloat(data['reader.lineHeight']) || defaultSettings.lineHeight,
@@ -161,7 +622,16 @@ export default function Reader() {
                 textColor: data['reader.textColor'] || defaultSettings.textColor,
                 padding: parseInt(data['reader.padding']) || defaultSettings.padding,
                 customCSS: data['reader.customCSS'] || '',
+                ttsVoice: data['reader.ttsVoice'] || defaultSettings.ttsVoice,
+                ttsRate: parseFloat(data['reader.ttsRate']) || defaultSettings.ttsRate,
+                ttsPitch: parseFloat(data['reader.ttsPitch']) || defaultSettings.ttsPitch,
+                autoScrollUnit: data['reader.autoScrollUnit'] === 'wpm' ? 'wpm' : 'px',
+                autoScrollSpeed: parseInt(data['reader.autoScrollSpeed']) || defaultSettings.autoScrollSpeed,
+                autoScrollWpm: parseInt(data['reader.autoScrollWpm']) || defaultSettings.autoScrollWpm,
+                autoScrollNextChapter: data['reader.autoScrollNextChapter'] === 'true',
+                autoScrollPauseOnHover: data['reader.autoScrollPauseOnHover'] !== 'false',
             });
+            completionSettings.current = parseCompletionSettings(data);
         } catch (e) {
             console.error('Failed to load reader settings:', e);
         }
@@ -193,6 +663,7 @@ export default function Reader() {
             const cached = prefetchedChapters.current.get(cacheKey);
             if (cached) {
                 setChapter(cached);
+                setChain([cached]);
                 setLoading(false);
                 prefetchedChapters.current.delete(cacheKey);
 
@@ -209,6 +680,7 @@ export default function Reader() {
             const res = await axios.get(url);
             const chapterData = res.data;
             setChapter(chapterData);
+            setChain([chapterData]);
 
             // Update history
             if (chapterData?.id) {
@@ -226,25 +698,25 @@ export default function Reader() {
         }
     };
 
-    const prefetchNextChapters = async (currentChapter: Chapter) => {
+    const prefetchNextChapters = async (currentChapter: Chapter, updateNav = true) => {
         if (!currentChapter?.novelId) return;
 
         try {
             // Get chapter list for navigation
             const chaptersRes = await axios.get(`/api/novel/chapters?novelId=${currentChapter.novelId}`);
             const chapters: Chapter[] = chaptersRes.data;
+            setChapterList(chapters);
 
             const currentIndex = chapters.findIndex((c) => c.id === currentChapter.id);
             if (currentIndex === -1) return;
 
             // Find prev/next chapters
-            const prevChapter = currentIndex > 0 ? chapters[currentIndex - 1] : undefined;
-            const nextChapter = currentIndex < chapters.length - 1 ? chapters[currentIndex + 1] : undefined;
-
-            setNavInfo({ prevChapter, nextChapter });
+            if (updateNav) {
+                setNavInfo(getNavInfo(chapters, currentChapter));
+            }
 
             // Prefetch next 2 chapters
-            const toPrefetch = [nextChapter, chapters[currentIndex + 2]].filter(Boolean) as Chapter[];
+            const toPrefetch = chapters.slice(currentIndex + 1, currentIndex + 3);
 
             for (const ch of toPrefetch) {
                 const key = `id:${ch.id}`;
@@ -262,17 +734,242 @@ export default function Reader() {
         }
     };
 
-    const navigateToChapter = (targetChapter: Chapter) => {
+    const getChapterUrl = useCallback((targetChapter: Chapter) => {
         if (novelId && targetChapter.id) {
-            navigate(`/novel/${novelId}/chapter/${targetChapter.id}`);
+            return `/novel/${novelId}/chapter/${targetChapter.id}`;
         } else if (qPluginId && targetChapter.path) {
-            navigate(`/reader?pluginId=${qPluginId}&novelPath=${encodeURIComponent(qNovelPath || '')}&chapterPath=${encodeURIComponent(targetChapter.path)}`);
+            return `/reader?pluginId=${qPluginId}&novelPath=${encodeURIComponent(qNovelPath || '')}&chapterPath=${encodeURIComponent(targetChapter.path)}`;
+        }
+        return null;
+    }, [novelId, qPluginId, qNovelPath]);
+
+    const navigateToChapter = (targetChapter: Chapter) => {
+        if (completionSettings.current.markReadOnNext && targetChapter.id === navInfo.nextChapter?.id) {
+            markFinished(chapter);
+        }
+        const url = getChapterUrl(targetChapter);
+        if (url) {
+            setFindIndex(0);
+            navigate(url);
+        }
+    };
+
+    // Continuous mode: append the chapter after the last one in the chain
+    const chainTail = chain[chain.length - 1];
+    const chainTailIndex = chainTail ? chapterList.findIndex((c) => c.id === chainTail.id) : -1;
+    const hasMoreChapters = chainTailIndex !== -1 && chainTailIndex < chapterList.length - 1;
+
+    const handleLoadMore = useCallback(async () => {
+        if (!hasMoreChapters || loadingMore) return;
+        const next = chapterList[chainTailIndex + 1];
+
+        setLoadingMore(true);
+        try {
+            const key = `id:${next.id}`;
+            let nextChapter = prefetchedChapters.current.get(key);
+            if (nextChapter) {
+                prefetchedChapters.current.delete(key);
+            } else {
+                const res = await axios.get(`/api/novel/chapter?chapterId=${next.id}`);
+                nextChapter = res.data as Chapter;
+            }
+            setChain((prev) => [...prev, nextChapter]);
+            prefetchNextChapters(nextChapter, false);
+        } catch (e) {
+            console.error('Failed to load next chapter:', e);
+        } finally {
+            setLoadingMore(false);
+        }
+    }, [hasMoreChapters, loadingMore, chapterList, chainTailIndex]);
+
+    // Continuous mode: the chapter in view becomes the current chapter
+    const handleChapterVisible = useCallback((index: number) => {
+        const visible = chain[index];
+        if (!visible || visible.id === chapter?.id) return;
+
+        // Scrolling on into the next chapter finishes the previous one
+        const previousIndex = chain.findIndex((c) => c.id === chapter?.id);
+        if (completionSettings.current.markReadOnNext && previousIndex !== -1 && index > previousIndex) {
+            markFinished(chapter);
+        }
+
+        chapterFromChain.current = true;
+        setChapter(visible);
+        setNavInfo(getNavInfo(chapterList, visible));
+        axios.post(`/api/history/${visible.id}`).catch(() => { });
+
+        const url = getChapterUrl(visible);
+        if (url) {
+            skipNextFetch.current = true;
+            navigate(url, { replace: true });
+        }
+    }, [chain, chapter, chapterList, getChapterUrl, navigate, markFinished]);
+
+    const handleChainProgress = useCallback((index: number, percent: number) => {
+        const ch = chain[index];
+        if (ch) {
+            saveReadingPosition(ch.id, { percent });
+            if (percent >= completionSettings.current.markReadThreshold) markFinished(ch);
+        }
+    }, [chain, markFinished]);
+
+    const turnPage = (direction: 1 | -1) => {
+        const target = page + direction;
+        if (target < 0) {
+            if (navInfo.prevChapter) navigateToChapter(navInfo.prevChapter);
+        } else if (target >= pageCount) {
+            if (navInfo.nextChapter) navigateToChapter(navInfo.nextChapter);
+        } else {
+            setPage(target);
+            const percent = pageCount > 1 ? (target / (pageCount - 1)) * 100 : 0;
+            saveReadingPosition(pagePositionKey, { percent, page: target, pageCount });
+            if (percent >= completionSettings.current.markReadThreshold) markFinished(chapter);
+        }
+    };
+
+    // Bring an element inside the chapter on screen in any reading mode
+    const revealElement = (el: HTMLElement) => {
+        const pagedEl = el.closest<HTMLElement>('.reader-paged');
+        if (pagedEl) {
+            setPage(Math.floor((el.offsetLeft - pagedEl.offsetLeft) / pagedEl.clientWidth));
+        } else {
+            el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+    };
+
+    const createAnnotation = async (draft: Omit<AnnotationDraft, 'novelId' | 'chapterId' | 'chapterName'>) => {
+        if (!chapter?.id || !chapter.novelId) return;
+        try {
+            const res = await axios.post('/api/annotations', {
+                ...draft,
+                novelId: chapter.novelId,
+                chapterId: chapter.id,
+                chapterName: chapter.name,
+            });
+            setAnnotations((prev) => [...prev, res.data]);
+        } catch (e) {
+            console.error('Failed to save annotation:', e);
+        }
+    };
+
+    const updateAnnotation = async (annotation: Annotation, note: string, color: AnnotationColor) => {
+        try {
+            await axios.put(`/api/annotations/${annotation.id}`, { note, color });
+            setAnnotations((prev) => prev.map((a) => (a.id === annotation.id ? { ...a, note, color } : a)));
+        } catch (e) {
+            console.error('Failed to update annotation:', e);
+        }
+    };
+
+    const deleteAnnotation = async (annotation: Annotation) => {
+        try {
+            await axios.delete(`/api/annotations/${annotation.id}`);
+            setAnnotations((prev) => prev.filter((a) => a.id !== annotation.id));
+        } catch (e) {
+            console.error('Failed to delete annotation:', e);
+        }
+    };
+
+    const clearSelection = () => {
+        window.getSelection()?.removeAllRanges();
+        selectionRange.current = null;
+        setSelectionRect(null);
+    };
+
+    const highlightRange = (range: Range, color: AnnotationColor, note = '') => {
+        const root = getContentRoot();
+        const anchor = root && describeRange(root, range);
+        if (anchor) {
+            createAnnotation({ type: 'highlight', color, note, ...anchor });
+        }
+    };
+
+    const handleHighlight = (color: AnnotationColor) => {
+        if (selectionRange.current) highlightRange(selectionRange.current, color);
+        clearSelection();
+    };
+
+    const handleAddNote = () => {
+        const range = selectionRange.current;
+        if (range) {
+            setAnnotationDialog({ mode: 'create', range, quote: range.toString() });
+        }
+        clearSelection();
+    };
+
+    // Bookmark the paragraph holding the selection, or the first one on screen; toggles off if already bookmarked
+    const toggleBookmark = (fromSelection: boolean) => {
+        const root = getContentRoot();
+        if (!root) return;
+        const paragraphs = getSpeakableParagraphs(root);
+        const range = selectionRange.current;
+        const paragraph = fromSelection && range
+            ? paragraphs.find((p) => p.contains(range.startContainer))
+            : paragraphs[Math.max(0, getFirstVisibleIndex(paragraphs))];
+        clearSelection();
+        if (!paragraph) return;
+
+        const existing = annotations.find(
+            (a) => a.type === 'bookmark' && String(a.id) === paragraph.dataset.annotationId
+        );
+        if (existing) {
+            deleteAnnotation(existing);
+        } else {
+            createAnnotation({ type: 'bookmark', color: 'blue', note: '', ...describeParagraph(root, paragraph) });
+        }
+    };
+
+    const toggleSpeech = () => {
+        if (tts.status === 'playing') {
+            tts.pause();
+        } else if (tts.status === 'paused') {
+            tts.resume();
+        } else {
+            startSpeech(true);
+        }
+    };
+
+    const toggleAutoScroll = () => {
+        if (isPaged) return;
+        if (autoScroll) {
+            setAutoScroll(false);
+            return;
+        }
+        setAutoScrollPaused(false);
+        setHoverPaused(false);
+        setShowOverlay(false);
+        setAutoScroll(true);
+    };
+
+    // Pixels per second; words per minute are converted using the current chapter's text density
+    const getAutoScrollSpeed = () => {
+        if (settings.autoScrollUnit === 'px') return settings.autoScrollSpeed;
+        const root = getContentRoot();
+        const words = root?.textContent?.split(/\s+/).filter(Boolean).length || 0;
+        if (!root || words === 0) return 0;
+        return (settings.autoScrollWpm / 60) * (root.scrollHeight / words);
+    };
+
+    const handleAutoScrollEnd = () => {
+        if (isContinuous) {
+            // Chained chapters are appended before the end is reached; stop once nothing more comes
+            if (!loadingMore) setAutoScroll(false);
+        } else if (settings.autoScrollNextChapter && navInfo.nextChapter) {
+            navigateToChapter(navInfo.nextChapter);
+        } else {
+            setAutoScroll(false);
         }
     };
 
+    const autoScrollKey = settings.autoScrollUnit === 'wpm' ? 'autoScrollWpm' : 'autoScrollSpeed';
+
     const toggleOverlay = useCallback(() => {
-        setShowOverlay((prev) => !prev);
-    }, []);
+        // Selecting text shouldn't hide/show the bars
+        if (window.getSelection()?.toString()) return;
+        // Showing the bars pauses auto-scroll, hiding them resumes it
+        setAutoScrollPaused(!showOverlay);
+        setShowOverlay(!showOverlay);
+    }, [showOverlay]);
 
     const handleBack = () => {
         if (novelId) {
@@ -305,6 +1002,37 @@ export default function Reader() {
       display: block;
       margin: 1em auto;
     }
+    .reader-paged {
+      height: 100%;
+      box-sizing: border-box;
+      overflow: hidden;
+      column-gap: ${settings.padding * 2}px;
+      column-fill: auto;
+    }
+    .reader-paged img {
+      max-height: calc(100vh - 120px);
+      break-inside: avoid;
+    }
+    .reader-content mark.annotation-highlight {
+      color: inherit;
+      cursor: pointer;
+      border-radius: 2px;
+    }
+    .reader-content .annotation-bookmark {
+      box-shadow: -8px 0 0 -4px rgba(100, 181, 246, 0.9);
+    }
+    .reader-content mark.search-match {
+      background-color: rgba(255, 235, 59, 0.35);
+      color: inherit;
+    }
+    .reader-content mark.search-match-current {
+      background-color: rgba(255, 152, 0, 0.85);
+    }
+    .reader-content .tts-active {
+      background-color: rgba(255, 193, 7, 0.2);
+      box-shadow: 0 0 0 4px rgba(255, 193, 7, 0.2);
+      border-radius: 2px;
+    }
     ${settings.customCSS}
   `;
 
@@ -344,6 +1072,53 @@ export default function Reader() {
                         >
                             {chapter?.name || 'Loading...'}
                         </Typography>
+                        <ReaderProfileMenu profiles={profiles} current={settings} onSelect={applyProfile} />
+                        <Tooltip title="Find in Chapter">
+                            <span>
+                                <IconButton
+                                    color="inherit"
+                                    onClick={() => setFindOpen(!findOpen)}
+                                    disabled={loading || !!error}
+                                >
+                                    <SearchIcon />
+                                </IconButton>
+                            </span>
+                        </Tooltip>
+                        {!!chapter?.novelId && (
+                            <Tooltip title="Bookmark Paragraph">
+                                <span>
+                                    <IconButton
+                                        color="inherit"
+                                        onClick={() => toggleBookmark(false)}
+                                        disabled={loading || !!error}
+                                    >
+                                        <BookmarkAddIcon />
+                                    </IconButton>
+                                </span>
+                            </Tooltip>
+                        )}
+                        {isSpeechSupported() && (
+                            <>
+                                {tts.status !== 'idle' && (
+                                    <Tooltip title="Stop Reading Aloud">
+                                        <IconButton color="inherit" onClick={tts.stop}>
+                                            <StopIcon />
+                                        </IconButton>
+                                    </Tooltip>
+                                )}
+                                <Tooltip title={tts.status === 'playing' ? 'Pause' : 'Read Aloud'}>
+                                    <span>
+                                        <IconButton
+                                            color="inherit"
+                                            onClick={toggleSpeech}
+                                            disabled={loading || !!error}
+                                        >
+                                            {tts.status === 'playing' ? <PauseIcon /> : <RecordVoiceOverIcon />}
+                                        </IconButton>
+                                    </span>
+                                </Tooltip>
+                            </>
+                        )}
                         <Tooltip title="Reader Settings">
                             <IconButton color="inherit" onClick={() => setSettingsOpen(true)}>
                                 <SettingsIcon />
@@ -353,37 +1128,76 @@ export default function Reader() {
                 </AppBar>
             </Fade>
 
+            {findOpen && (
+                <ReaderFindBar
+                    query={findQuery}
+                    onQueryChange={(query) => {
+                        setFindQuery(query);
+                        setFindIndex(0);
+                    }}
+                    current={activeMatch}
+                    count={findCount}
+                    onNext={() => setFindIndex(activeMatch + 1)}
+                    onPrev={() => setFindIndex(activeMatch - 1)}
+                    onClose={() => setFindOpen(false)}
+                />
+            )}
+
             {/* Main Content */}
-            <Box
-                onClick={toggleOverlay}
-                sx={{
-                    pt: showOverlay ? 10 : 4,
-                    pb: showOverlay ? 12 : 4,
-                    minHeight: '100vh',
-                    transition: 'padding 0.3s',
-                }}
-            >
-                {loading ? (
-                    <Box sx={{ display: 'flex', justifyContent: 'center', mt: 10 }}>
-                        <CircularProgress />
-                    </Box>
-                ) : error ? (
-                    <Box sx={{ mt: 10, textAlign: 'center' }}>
-                        <Typography color="error" gutterBottom>
-                            {error}
-                        </Typography>
-                        <Button variant="contained" onClick={fetchChapter}>
-                            Retry
-                        </Button>
-                    </Box>
-                ) : (
-                    <div
-                        ref={contentRef}
-                        className="reader-content"
-                        dangerouslySetInnerHTML={{ __html: chapter?.content || 'No content found.' }}
-                    />
-                )}
-            </Box>
+            {isPaged && !loading && !error ? (
+                <PagedReader
+                    key={pagePositionKey}
+                    html={chapterHtml || 'No content found.'}
+                    page={page}
+                    pageCount={pageCount}
+                    layoutKey={readerStyles}
+                    onLayout={handlePageLayout}
+                    onTurnPage={turnPage}
+                    onToggleOverlay={toggleOverlay}
+                />
+            ) : isContinuous && !loading && !error ? (
+                <ContinuousReader
+                    key={chain[0]?.id}
+                    chapters={renderedChain}
+                    hasMore={hasMoreChapters}
+                    loadingMore={loadingMore}
+                    onLoadMore={handleLoadMore}
+                    onChapterVisible={handleChapterVisible}
+                    onProgress={handleChainProgress}
+                    onToggleOverlay={toggleOverlay}
+                />
+            ) : (
+                <Box
+                    onClick={toggleOverlay}
+                    sx={{
+                        pt: showOverlay ? 10 : 4,
+                        pb: showOverlay ? 12 : 4,
+                        minHeight: '100vh',
+                        transition: 'padding 0.3s',
+                    }}
+                >
+                    {loading ? (
+                        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 10 }}>
+                            <CircularProgress />
+                        </Box>
+                    ) : error ? (
+                        <Box sx={{ mt: 10, textAlign: 'center' }}>
+                            <Typography color="error" gutterBottom>
+                                {error}
+                            </Typography>
+                            <Button variant="contained" onClick={fetchChapter}>
+                                Retry
+                            </Button>
+                        </Box>
+                    ) : (
+                        <div
+                            ref={contentRef}
+                            className="reader-content"
+                            dangerouslySetInnerHTML={{ __html: chapterHtml || 'No content found.' }}
+                        />
+                    )}
+                </Box>
+            )}
 
             {/* Bottom Navigation Bar */}
             <Fade in={showOverlay}>
@@ -409,9 +1223,56 @@ export default function Reader() {
                     >
                         Previous
                     </Button>
-                    <Typography variant="caption" sx={{ opacity: 0.7, textAlign: 'center', flex: 1 }}>
-                        {chapter?.name}
-                    </Typography>
+                    <Box sx={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+                        <Typography variant="caption" sx={{ opacity: 0.7, textAlign: 'center' }}>
+                            {chapter?.name}
+                            {isPaged && ` • Page ${page + 1} of ${pageCount}`}
+                        </Typography>
+                        {!isPaged && (
+                            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: '100%', maxWidth: 360 }}>
+                                <Tooltip
+                                    title={!autoScroll
+                                        ? 'Start auto-scroll'
+                                        : autoScrollPaused ? 'Resume auto-scroll' : 'Pause auto-scroll'}
+                                >
+                                    <IconButton
+                                        size="small"
+                                        color="inherit"
+                                        onClick={() => (autoScroll ? setAutoScrollPaused(!autoScrollPaused) : toggleAutoScroll())}
+                                    >
+                                        {autoScroll && !autoScrollPaused ? <PauseIcon /> : <PlayArrowIcon />}
+                                    </IconButton>
+                                </Tooltip>
+                                <Slider
+                                    size="small"
+                                    aria-label="Auto-scroll speed"
+                                    value={settings[autoScrollKey]}
+                                    {...autoScrollRanges[settings.autoScrollUnit]}
+                                    onChange={(_, value) => updateReaderValues({ [autoScrollKey]: value as number }, false)}
+                                    onChangeCommitted={(_, value) => updateReaderValues({ [autoScrollKey]: value as number })}
+                                    sx={{ flex: 1, color: 'white' }}
+                                />
+                                <Tooltip title="Switch unit">
+                                    <Button
+                                        size="small"
+                                        onClick={() => updateReaderValues({
+                                            autoScrollUnit: settings.autoScrollUnit === 'wpm' ? 'px' : 'wpm',
+                                        })}
+                                        sx={{ color: 'white', minWidth: 72, whiteSpace: 'nowrap', textTransform: 'none' }}
+                                    >
+                                        {settings[autoScrollKey]} {settings.autoScrollUnit === 'wpm' ? 'wpm' : 'px/s'}
+                                    </Button>
+                                </Tooltip>
+                                {autoScroll && (
+                                    <Tooltip title="Stop auto-scroll">
+                                        <IconButton size="small" color="inherit" onClick={() => setAutoScroll(false)}>
+                                            <StopIcon fontSize="small" />
+                                        </IconButton>
+                                    </Tooltip>
+                                )}
+                            </Box>
+                        )}
+                    </Box>
                     <Button
                         endIcon={<ChevronRightIcon />}
                         disabled={!navInfo.nextChapter}
@@ -423,12 +1284,53 @@ export default function Reader() {
                 </Box>
             </Fade>
 
+            {/* Annotations */}
+            <SelectionToolbar
+                rect={selectionRect}
+                onHighlight={handleHighlight}
+                onAddNote={handleAddNote}
+                onBookmark={() => toggleBookmark(true)}
+            />
+            <AnnotationDialog
+                open={annotationDialog !== null}
+                type={annotationDialog?.mode === 'edit' ? annotationDialog.annotation.type : 'highlight'}
+                quote={annotationDialog?.mode === 'edit'
+                    ? annotationDialog.annotation.quote.exact
+                    : annotationDialog?.quote || ''}
+                initialNote={annotationDialog?.mode === 'edit' ? annotationDialog.annotation.note : ''}
+                initialColor={annotationDialog?.mode === 'edit' ? annotationDialog.annotation.color : 'yellow'}
+                canDelete={annotationDialog?.mode === 'edit'}
+                onClose={() => setAnnotationDialog(null)}
+                onSave={(note, color) => {
+                    if (annotationDialog?.mode === 'edit') {
+                        updateAnnotation(annotationDialog.annotation, note, color);
+                    } else if (annotationDialog?.mode === 'create') {
+                        highlightRange(annotationDialog.range, color, note);
+                    }
+                    setAnnotationDialog(null);
+                }}
+                onDelete={() => {
+                    if (annotationDialog?.mode === 'edit') {
+                        deleteAnnotation(annotationDialog.annotation);
+                    }
+                    setAnnotationDialog(null);
+                }}
+            />
+
             {/* Settings Panel */}
             <ReaderSettingsPanel
                 open={settingsOpen}
                 onClose={() => setSettingsOpen(false)}
-                settings={settings}
-                onSettingsChange={setSettings}
+                settings={globalSettings}
+                onSettingsChange={setGlobalSettings}
+                novelId={chapter?.novelId}
+                overrides={novelOverrides}
+                onOverridesChange={setNovelOverrides}
+                profiles={profiles}
+                onProfilesChange={setProfiles}
+                sourceTrusted={!!sourceId && trustedSources.includes(sourceId)}
+                onSourceTrustedChange={sourceId ? handleSourceTrustedChange : undefined}
+                onReplacementRulesChange={setReplacementRules}
             />
         </Box>
     );
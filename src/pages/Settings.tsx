@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Tabs, Tab, Box, Paper, FormControl, InputLabel, Select, MenuItem, Divider, Typography } from '@mui/material';
 import TrackerSettings from '../components/TrackerSettings';
 import SettingsRepositories from '../components/settings/SettingsRepositories';
@@ -6,6 +7,7 @@ import SettingsLibrary from '../components/settings/SettingsLibrary';
 import SettingsData from '../components/settings/SettingsData';
 import SettingsReader from '../components/settings/SettingsReader';
 import SettingsNetwork from '../components/settings/SettingsNetwork';
+import SettingsKeyboard from '../components/settings/SettingsKeyboard';
 
 interface TabPanelProps {
     children?: React.ReactNode;
@@ -33,8 +35,12 @@ function TabPanel(props: TabPanelProps) {
     );
 }
 
+// Tab names usable as ?tab= links
+const tabNames = ['general', 'repositories', 'library', 'reader', 'keyboard', 'trackers', 'network', 'data'];
+
 export default function Settings() {
-    const [value, setValue] = useState(0);
+    const [searchParams] = useSearchParams();
+    const [value, setValue] = useState(Math.max(0, tabNames.indexOf(searchParams.get('tab') || '')));
 
     // General (App Theme)
     const [theme, setTheme] = useState(localStorage.getItem('theme') || 'dark');
@@ -86,6 +92,7 @@ export default function Settings() {
                     <Tab label="Repositories" />
                     <Tab label="Library" />
                     <Tab label="Reader" />
+                    <Tab label="Keyboard" />
                     <Tab label="Trackers" />
                     <Tab label="Network" />
                     <Tab label="Data & Advanced" />
@@ -145,14 +152,18 @@ export default function Settings() {
                 </TabPanel>
 
                 <TabPanel value={value} index={4}>
-                    <TrackerSettings />
+                    <SettingsKeyboard />
                 </TabPanel>
 
                 <TabPanel value={value} index={5}>
-                    <SettingsNetwork />
+                    <TrackerSettings />
                 </TabPanel>
 
                 <TabPanel value={value} index={6}>
+                    <SettingsNetwork />
+                </TabPanel>
+
+                <TabPanel value={value} index={7}>
                     <SettingsData />
                 </TabPanel>
             </Box>
@@ -0,0 +1,185 @@
+/**
+ * Annotation utility - highlights, notes and bookmarks inside chapter content
+ *
+ * Annotations are anchored with a text quote (exact text plus a little
+ * surrounding context) and a character offset hint, so they can be found
+ * again after the chapter HTML is re-rendered or slightly changed.
+ */
+
+import { getSpeakableParagraphs } from '../hooks/useTextToSpeech';
+
+export type AnnotationType = 'highlight' | 'bookmark';
+export type AnnotationColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+export interface TextQuote {
+    exact: string;
+    prefix: string;
+    suffix: string;
+}
+
+export interface Annotation {
+    id: number;
+    novelId: number;
+    chapterId: number;
+    chapterName?: string;
+    type: AnnotationType;
+    color: AnnotationColor;
+    note: string;
+    quote: TextQuote;
+    // Character offset of the quote when it was created, used to pick between repeats
+    position: number;
+    createdAt?: string;
+}
+
+export type AnnotationDraft = Omit<Annotation, 'id' | 'createdAt'>;
+
+export const annotationColors: Record<AnnotationColor, string> = {
+    yellow: 'rgba(255, 213, 79, 0.45)',
+    green: 'rgba(129, 199, 132, 0.45)',
+    blue: 'rgba(100, 181, 246, 0.45)',
+    pink: 'rgba(240, 98, 146, 0.45)',
+    purple: 'rgba(186, 104, 200, 0.45)',
+};
+
+const CONTEXT_LENGTH = 32;
+const BOOKMARK_QUOTE_LENGTH = 80;
+
+// Offset of a DOM point within the text content of root
+const textOffset = (root: HTMLElement, container: Node, offset: number) => {
+    const range = document.createRange();
+    range.setStart(root, 0);
+    range.setEnd(container, offset);
+    return range.toString().length;
+};
+
+/**
+ * Build an anchor for a user selection inside root.
+ */
+export const describeRange = (root: HTMLElement, range: Range): { quote: TextQuote; position: number } | null => {
+    if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null;
+
+    const text = root.textContent || '';
+    const start = textOffset(root, range.startContainer, range.startOffset);
+    const end = textOffset(root, range.endContainer, range.endOffset);
+    if (end <= start) return null;
+
+    return {
+        quote: {
+            exact: text.slice(start, end),
+            prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+            suffix: text.slice(end, end + CONTEXT_LENGTH),
+        },
+        position: start,
+    };
+};
+
+/**
+ * Build an anchor for a whole paragraph (bookmarks).
+ */
+export const describeParagraph = (root: HTMLElement, paragraph: HTMLElement): { quote: TextQuote; position: number } => {
+    const position = textOffset(root, paragraph, 0);
+    return {
+        quote: {
+            exact: (paragraph.textContent || '').slice(0, BOOKMARK_QUOTE_LENGTH),
+            prefix: '',
+            suffix: '',
+        },
+        position,
+    };
+};
+
+/**
+ * Find the text range of a quote, preferring matching context and the original position.
+ */
+export const findQuote = (text: string, quote: TextQuote, position: number): { start: number; end: number } | null => {
+    if (!quote.exact) return null;
+
+    let best: { start: number; score: number } | null = null;
+    let index = text.indexOf(quote.exact);
+    while (index !== -1) {
+        let score = 0;
+        if (quote.prefix && text.slice(index - quote.prefix.length, index) === quote.prefix) score += 2;
+        if (quote.suffix && text.slice(index + quote.exact.length).startsWith(quote.suffix)) score += 2;
+        score -= Math.abs(index - position) / Math.max(1, text.length);
+
+        if (!best || score > best.score) best = { start: index, score };
+        index = text.indexOf(quote.exact, index + 1);
+    }
+
+    return best ? { start: best.start, end: best.start + quote.exact.length } : null;
+};
+
+// Wrap the text between two offsets in <mark> elements, one per text node
+const wrapText = (root: HTMLElement, start: number, end: number, annotation: Annotation): HTMLElement[] => {
+    const marks: HTMLElement[] = [];
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    const nodes: Text[] = [];
+    while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+
+    let offset = 0;
+    for (const node of nodes) {
+        const nodeStart = offset;
+        const nodeEnd = offset + node.data.length;
+        offset = nodeEnd;
+        if (nodeEnd <= start || nodeStart >= end || !node.data.trim()) continue;
+
+        let target = node;
+        if (start > nodeStart) target = target.splitText(start - nodeStart);
+        if (end < nodeEnd) target.splitText(end - Math.max(start, nodeStart));
+
+        const mark = document.createElement('mark');
+        mark.className = 'annotation-highlight';
+        mark.dataset.annotationId = String(annotation.id);
+        mark.style.backgroundColor = annotationColors[annotation.color] || annotationColors.yellow;
+        if (annotation.note) mark.title = annotation.note;
+        target.parentNode?.insertBefore(mark, target);
+        mark.appendChild(target);
+        marks.push(mark);
+    }
+    return marks;
+};
+
+/**
+ * Remove previously applied annotation markup from root.
+ */
+export const clearAnnotations = (root: HTMLElement) => {
+    root.querySelectorAll<HTMLElement>('mark.annotation-highlight').forEach((mark) => {
+        mark.replaceWith(...Array.from(mark.childNodes));
+    });
+    root.querySelectorAll<HTMLElement>('.annotation-bookmark').forEach((el) => {
+        el.classList.remove('annotation-bookmark');
+        delete el.dataset.annotationId;
+    });
+    root.normalize();
+};
+
+/**
+ * Re-anchor annotations in freshly rendered content.
+ * Returns the first element of each annotation that could be placed.
+ */
+export const applyAnnotations = (root: HTMLElement, annotations: Annotation[]): Map<number, HTMLElement> => {
+    clearAnnotations(root);
+    const anchors = new Map<number, HTMLElement>();
+
+    for (const annotation of annotations) {
+        if (annotation.type === 'bookmark') {
+            const paragraphs = getSpeakableParagraphs(root);
+            const paragraph = paragraphs.find((p) => (p.textContent || '').startsWith(annotation.quote.exact))
+                || paragraphs.find((p) => (p.textContent || '').includes(annotation.quote.exact));
+            if (paragraph) {
+                paragraph.classList.add('annotation-bookmark');
+                paragraph.dataset.annotationId = String(annotation.id);
+                anchors.set(annotation.id, paragraph);
+            }
+            continue;
+        }
+
+        // Wrapping only adds elements, so text offsets stay valid between annotations
+        const match = findQuote(root.textContent || '', annotation.quote, annotation.position);
+        if (!match) continue;
+        const marks = wrapText(root, match.start, match.end, annotation);
+        if (marks.length) anchors.set(annotation.id, marks[0]);
+    }
+
+    return anchors;
+};
@@ -0,0 +1,41 @@
+/**
+ * Chapter content utility - the HTML the reader renders for a chapter
+ *
+ * Sanitized unless the source is trusted, then the novel's replacement rules.
+ * Search runs on the same output, so match indexes point at the occurrence
+ * the reader highlights and replaced names are found.
+ */
+
+import axios from 'axios';
+import { sanitizeHtml } from './sanitizeHtml';
+import { applyReplacements, getRulesForNovel } from './replacements';
+import type { ReplacementRule } from './replacements';
+import { loadTrustedSources } from './trustedSources';
+
+export interface ContentOptions {
+    trustedSources: string[];
+    // All scopes, filtered per chapter
+    rules: ReplacementRule[];
+}
+
+export const prepareChapterHtml = (
+    content: string,
+    chapter: { novelId?: number | null; pluginId?: string | null },
+    options: ContentOptions
+) => {
+    const trusted = !!chapter.pluginId && options.trustedSources.includes(chapter.pluginId);
+    return applyReplacements(sanitizeHtml(content, trusted), getRulesForNovel(options.rules, chapter.novelId));
+};
+
+/**
+ * Trusted sources and replacement rules; either one is empty when it can't be loaded.
+ */
+export const loadContentOptions = async (): Promise<ContentOptions> => {
+    const [trustedSources, rules] = await Promise.all([
+        loadTrustedSources().catch((): string[] => []),
+        axios.get('/api/replacements')
+            .then((res): ReplacementRule[] => res.data || [])
+            .catch((): ReplacementRule[] => []),
+    ]);
+    return { trustedSources, rules };
+};
@@ -0,0 +1,136 @@
+/**
+ * Chapter list utility - filter, sort and navigate a novel's chapter list
+ *
+ * Display settings are device-wide (localStorage), like the library's used to be.
+ */
+
+export type ChapterFilter = 'unread' | 'downloaded' | 'bookmarked';
+export type ChapterSort = 'source' | 'number' | 'date';
+
+export interface ChapterListSettings {
+    filters: ChapterFilter[];
+    sortBy: ChapterSort;
+    sortAsc: boolean;
+}
+
+export interface ListChapter {
+    id: number;
+    name: string;
+    releaseTime?: string;
+    chapterNumber?: number;
+    isDownloaded: boolean;
+    unread: boolean;
+}
+
+export const chapterFilters: { value: ChapterFilter; label: string }[] = [
+    { value: 'unread', label: 'Unread' },
+    { value: 'downloaded', label: 'Downloaded' },
+    { value: 'bookmarked', label: 'Bookmarked' },
+];
+
+export const chapterSorts: { value: ChapterSort; label: string }[] = [
+    { value: 'source', label: 'Source Order' },
+    { value: 'number', label: 'Chapter Number' },
+    { value: 'date', label: 'Upload Date' },
+];
+
+const SETTINGS_KEY = 'novel.chapterList';
+
+const defaultSettings: ChapterListSettings = { filters: [], sortBy: 'source', sortAsc: true };
+
+export const loadChapterListSettings = (): ChapterListSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+        return {
+            filters: Array.isArray(saved.filters)
+                ? saved.filters.filter((f: string) => chapterFilters.some((o) => o.value === f))
+                : defaultSettings.filters,
+            sortBy: chapterSorts.some((o) => o.value === saved.sortBy) ? saved.sortBy : defaultSettings.sortBy,
+            sortAsc: typeof saved.sortAsc === 'boolean' ? saved.sortAsc : defaultSettings.sortAsc,
+        };
+    } catch {
+        return defaultSettings;
+    }
+};
+
+export const saveChapterListSettings = (settings: ChapterListSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Chapter number from the source metadata, or parsed from the chapter name.
+ */
+export const getChapterNumber = (chapter: { name: string; chapterNumber?: number }): number | null => {
+    if (typeof chapter.chapterNumber === 'number' && chapter.chapterNumber > 0) return chapter.chapterNumber;
+    const labelled = chapter.name.match(/(?:chapter|ch\.?|episode|ep\.?)\s*(\d+(?:\.\d+)?)/i);
+    const match = labelled || chapter.name.match(/(\d+(?:\.\d+)?)/);
+    return match ? parseFloat(match[1]) : null;
+};
+
+const releaseDate = (chapter: ListChapter) => {
+    const time = chapter.releaseTime ? Date.parse(chapter.releaseTime) : NaN;
+    return Number.isNaN(time) ? 0 : time;
+};
+
+/**
+ * Apply the list filters (all must match) and sort. Ties keep source order.
+ */
+export const filterAndSortChapters = <T extends ListChapter>(
+    chapters: T[],
+    settings: ChapterListSettings,
+    bookmarkedIds: Set<number>
+): T[] => {
+    const { filters, sortBy, sortAsc } = settings;
+    const indexed = chapters
+        .map((chapter, index) => ({ chapter, index }))
+        .filter(({ chapter }) =>
+            (!filters.includes('unread') || chapter.unread) &&
+            (!filters.includes('downloaded') || chapter.isDownloaded) &&
+            (!filters.includes('bookmarked') || bookmarkedIds.has(chapter.id))
+        );
+
+    const key = (item: { chapter: T; index: number }) => {
+        switch (sortBy) {
+            case 'number':
+                return getChapterNumber(item.chapter) ?? item.index;
+            case 'date':
+                return releaseDate(item.chapter);
+            default:
+                return item.index;
+        }
+    };
+
+    indexed.sort((a, b) => {
+        const comparison = key(a) - key(b) || a.index - b.index;
+        return sortAsc ? comparison : -comparison;
+    });
+    return indexed.map(({ chapter }) => chapter);
+};
+
+/**
+ * First chapter whose number is the requested one, or the closest one after it.
+ */
+export const findChapterByNumber = <T extends ListChapter>(chapters: T[], number: number): T | null => {
+    let best: { chapter: T; distance: number } | null = null;
+    for (const chapter of chapters) {
+        const n = getChapterNumber(chapter);
+        if (n === null || n < number) continue;
+        if (!best || n - number < best.distance) best = { chapter, distance: n - number };
+        if (n === number) break;
+    }
+    return best?.chapter ?? null;
+};
+
+/**
+ * Chapter to continue with: the last one read if unfinished, otherwise the
+ * next unread one after it (source order), otherwise the first unread one.
+ */
+export const getResumeChapter = <T extends ListChapter>(chapters: T[], lastReadId?: number): T | null => {
+    const index = lastReadId === undefined ? -1 : chapters.findIndex((c) => c.id === lastReadId);
+    if (index !== -1) {
+        if (chapters[index].unread) return chapters[index];
+        const next = chapters.slice(index + 1).find((c) => c.unread);
+        if (next) return next;
+    }
+    return chapters.find((c) => c.unread) ?? null;
+};
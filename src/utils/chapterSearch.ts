@@ -0,0 +1,177 @@
+/**
+ * Chapter search utility - full-text search in chapter content
+ *
+ * - Search a novel's downloaded chapters (offline copy first, then the server)
+ * - Highlight and step through matches inside the rendered chapter
+ *
+ * Matches are case-insensitive and referred to by their index in the chapter
+ * text as the reader renders it (see chapterContent), so a result from the
+ * Novel page can be found again in the reader.
+ */
+
+import axios from 'axios';
+import { getOfflineChapter, isOfflineStoreSupported } from './offlineStore';
+import { loadContentOptions, prepareChapterHtml } from './chapterContent';
+
+export interface SearchSnippet {
+    // Index of the match within the chapter
+    match: number;
+    before: string;
+    text: string;
+    after: string;
+}
+
+export interface ChapterSearchResult {
+    chapterId: number;
+    chapterName: string;
+    count: number;
+    snippets: SearchSnippet[];
+}
+
+interface SearchableChapter {
+    id: number;
+    name: string;
+}
+
+const SNIPPET_CONTEXT = 60;
+const SNIPPETS_PER_CHAPTER = 3;
+
+export const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Offsets of every case-insensitive occurrence of query in text.
+ */
+export const findMatchOffsets = (text: string, query: string): number[] => {
+    const needle = query.trim().toLowerCase();
+    if (needle.length < MIN_QUERY_LENGTH) return [];
+
+    const haystack = text.toLowerCase();
+    const offsets: number[] = [];
+    let index = haystack.indexOf(needle);
+    while (index !== -1) {
+        offsets.push(index);
+        index = haystack.indexOf(needle, index + needle.length);
+    }
+    return offsets;
+};
+
+export const htmlToText = (html: string) =>
+    new DOMParser().parseFromString(html, 'text/html').body.textContent || '';
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ');
+
+export const getSnippet = (text: string, offset: number, length: number, match: number): SearchSnippet => {
+    const start = Math.max(0, offset - SNIPPET_CONTEXT);
+    const end = Math.min(text.length, offset + length + SNIPPET_CONTEXT);
+    return {
+        match,
+        before: (start > 0 ? '…' : '') + collapse(text.slice(start, offset)).trimStart(),
+        text: text.slice(offset, offset + length),
+        after: collapse(text.slice(offset + length, end)).trimEnd() + (end < text.length ? '…' : ''),
+    };
+};
+
+interface LoadedChapter {
+    content: string;
+    novelId?: number;
+    pluginId?: string;
+}
+
+const loadChapter = async (chapterId: number): Promise<LoadedChapter> => {
+    if (isOfflineStoreSupported()) {
+        const stored = await getOfflineChapter(chapterId).catch(() => undefined);
+        if (stored?.content) return { ...stored, pluginId: stored.pluginId as string | undefined };
+    }
+    const res = await axios.get(`/api/novel/chapter?chapterId=${chapterId}`);
+    return { ...res.data, content: res.data?.content || '' };
+};
+
+/**
+ * Search the given (downloaded) chapters one by one.
+ * Stops early and returns what was found once isCancelled() turns true.
+ */
+export const searchChapters = async (
+    chapters: SearchableChapter[],
+    query: string,
+    options: { onProgress?: (done: number) => void; isCancelled?: () => boolean } = {}
+): Promise<ChapterSearchResult[]> => {
+    const results: ChapterSearchResult[] = [];
+    const length = query.trim().length;
+    const contentOptions = await loadContentOptions();
+
+    for (const [index, chapter] of chapters.entries()) {
+        if (options.isCancelled?.()) break;
+        try {
+            const loaded = await loadChapter(chapter.id);
+            const text = htmlToText(prepareChapterHtml(loaded.content, loaded, contentOptions));
+            const offsets = findMatchOffsets(text, query);
+            if (offsets.length > 0) {
+                results.push({
+                    chapterId: chapter.id,
+                    chapterName: chapter.name,
+                    count: offsets.length,
+                    snippets: offsets
+                        .slice(0, SNIPPETS_PER_CHAPTER)
+                        .map((offset, match) => getSnippet(text, offset, length, match)),
+                });
+            }
+        } catch (e) {
+            console.error(`Failed to search chapter ${chapter.id}:`, e);
+        }
+        options.onProgress?.(index + 1);
+    }
+    return results;
+};
+
+// --- In-chapter highlighting ---
+
+/**
+ * Remove search highlights from root.
+ */
+export const clearMatches = (root: HTMLElement) => {
+    root.querySelectorAll<HTMLElement>('mark.search-match').forEach((mark) => {
+        mark.replaceWith(...Array.from(mark.childNodes));
+    });
+    root.normalize();
+};
+
+/**
+ * Wrap every occurrence of query in <mark class="search-match"> elements.
+ * Returns the marks of each match, in order (a match spanning elements has several).
+ */
+export const highlightMatches = (root: HTMLElement, query: string): HTMLElement[][] => {
+    clearMatches(root);
+    const length = query.trim().length;
+    const offsets = findMatchOffsets(root.textContent || '', query);
+    if (offsets.length === 0) return [];
+
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    const nodes: Text[] = [];
+    while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+
+    const matches: HTMLElement[][] = offsets.map(() => []);
+    let nodeStart = 0;
+    let matchIndex = 0;
+    for (const node of nodes) {
+        const nodeEnd = nodeStart + node.data.length;
+        // Work from the end of the node so splitting doesn't shift earlier offsets
+        const inNode: { match: number; start: number; end: number }[] = [];
+        for (let i = matchIndex; i < offsets.length && offsets[i] < nodeEnd; i++) {
+            const start = Math.max(offsets[i], nodeStart);
+            const end = Math.min(offsets[i] + length, nodeEnd);
+            if (end > start) inNode.push({ match: i, start: start - nodeStart, end: end - nodeStart });
+        }
+        for (const { match, start, end } of inNode.reverse()) {
+            const target = node.splitText(start);
+            target.splitText(end - start);
+            const mark = document.createElement('mark');
+            mark.className = 'search-match';
+            target.parentNode?.insertBefore(mark, target);
+            mark.appendChild(target);
+            matches[match].push(mark);
+        }
+        while (matchIndex < offsets.length && offsets[matchIndex] + length <= nodeEnd) matchIndex++;
+        nodeStart = nodeEnd;
+    }
+    return matches;
+};
@@ -0,0 +1,101 @@
+/**
+ * Duplicate detection - the same novel added to the library from more than one source
+ *
+ * Two entries are likely duplicates when their normalized titles are equal and
+ * their authors don't contradict each other (a missing author matches anything).
+ * Merging reuses the migration flow: each extra entry is migrated into the one
+ * being kept, so read state, annotations, categories and trackers are combined.
+ */
+
+import axios from 'axios';
+import { applyMigration, buildMigrationPlan, normalizeTitle } from './migration';
+
+export interface DuplicateNovel {
+    id: number;
+    name: string;
+    cover: string;
+    path: string;
+    pluginId: string;
+    author?: string;
+    chaptersRead?: number;
+    totalChapters?: number;
+}
+
+// Token order ignored so "Last, First" and "First Last" compare equal
+const normalizeAuthor = (author?: string) =>
+    (author || '')
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean)
+        .sort()
+        .join(' ');
+
+const authorsMatch = (a?: string, b?: string) => {
+    const left = normalizeAuthor(a);
+    const right = normalizeAuthor(b);
+    return !left || !right || left === right;
+};
+
+export const isLikelyDuplicate = (
+    a: { name: string; author?: string },
+    b: { name: string; author?: string }
+) => normalizeTitle(a.name) === normalizeTitle(b.name) && authorsMatch(a.author, b.author);
+
+export const loadLibraryNovels = async (): Promise<DuplicateNovel[]> => {
+    const res = await axios.get('/api/library');
+    return res.data || [];
+};
+
+/**
+ * Library entries that look like the given novel, excluding the novel itself.
+ */
+export const findDuplicates = (
+    novel: { name: string; author?: string; path: string; pluginId: string },
+    library: DuplicateNovel[]
+) =>
+    library.filter((entry) =>
+        !(entry.pluginId === novel.pluginId && entry.path === novel.path) &&
+        isLikelyDuplicate(novel, entry)
+    );
+
+/**
+ * Groups of two or more library entries that look like the same novel.
+ */
+export const findDuplicateClusters = (library: DuplicateNovel[]): DuplicateNovel[][] => {
+    const byTitle = new Map<string, DuplicateNovel[]>();
+    for (const novel of library) {
+        const key = normalizeTitle(novel.name);
+        if (!key) continue;
+        byTitle.set(key, [...(byTitle.get(key) || []), novel]);
+    }
+
+    const clusters: DuplicateNovel[][] = [];
+    for (const group of byTitle.values()) {
+        // Split same-title novels by author; entries without an author join the first cluster
+        const split: DuplicateNovel[][] = [];
+        for (const novel of group) {
+            const cluster = split.find((c) => c.every((other) => authorsMatch(novel.author, other.author)));
+            if (cluster) {
+                cluster.push(novel);
+            } else {
+                split.push([novel]);
+            }
+        }
+        clusters.push(...split.filter((c) => c.length > 1));
+    }
+    return clusters;
+};
+
+/**
+ * Fold every other entry of a cluster into the one being kept, removing the others.
+ */
+export const mergeDuplicates = async (keep: DuplicateNovel, others: DuplicateNovel[]) => {
+    const target = { pluginId: keep.pluginId, pluginName: keep.pluginId, name: keep.name, cover: keep.cover, path: keep.path };
+    for (const novel of others) {
+        const plan = await buildMigrationPlan(
+            { id: novel.id, name: novel.name, cover: novel.cover, pluginId: novel.pluginId, path: novel.path },
+            target
+        );
+        await applyMigration(plan, true);
+    }
+};
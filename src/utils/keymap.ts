@@ -0,0 +1,198 @@
+/**
+ * Keymap utility - configurable keyboard shortcuts
+ *
+ * A binding is a key combo like "ArrowRight", "Ctrl+s" or "?", or a two-key
+ * sequence separated by a space like "g l". The keymap is stored per device
+ * in localStorage; only actions that differ from the defaults are saved.
+ * Listeners hear about every save so active shortcuts update without a reload.
+ */
+
+export type KeyScope = 'reader' | 'global';
+
+export type KeyAction =
+    | 'scrollDown'
+    | 'scrollUp'
+    | 'nextChapter'
+    | 'prevChapter'
+    | 'toggleOverlay'
+    | 'openSettings'
+    | 'fontSizeUp'
+    | 'fontSizeDown'
+    | 'toggleSpeech'
+    | 'toggleAutoScroll'
+    | 'bookmark'
+    | 'find'
+    | 'back'
+    | 'goLibrary'
+    | 'goUpdates'
+    | 'goBrowse'
+    | 'showShortcuts';
+
+export type Keymap = Record<KeyAction, string[]>;
+
+export const keyActions: { action: KeyAction; label: string; scope: KeyScope }[] = [
+    { action: 'scrollDown', label: 'Scroll down one screen / next page', scope: 'reader' },
+    { action: 'scrollUp', label: 'Scroll up one screen / previous page', scope: 'reader' },
+    { action: 'nextChapter', label: 'Next chapter (next page in paged mode)', scope: 'reader' },
+    { action: 'prevChapter', label: 'Previous chapter (previous page in paged mode)', scope: 'reader' },
+    { action: 'toggleOverlay', label: 'Show / hide overlay', scope: 'reader' },
+    { action: 'openSettings', label: 'Open reader settings', scope: 'reader' },
+    { action: 'fontSizeUp', label: 'Increase font size', scope: 'reader' },
+    { action: 'fontSizeDown', label: 'Decrease font size', scope: 'reader' },
+    { action: 'toggleSpeech', label: 'Play / pause text-to-speech', scope: 'reader' },
+    { action: 'toggleAutoScroll', label: 'Start / stop auto-scroll', scope: 'reader' },
+    { action: 'bookmark', label: 'Bookmark paragraph', scope: 'reader' },
+    { action: 'find', label: 'Find in chapter', scope: 'reader' },
+    { action: 'back', label: 'Leave reader', scope: 'reader' },
+    { action: 'goLibrary', label: 'Go to Library', scope: 'global' },
+    { action: 'goUpdates', label: 'Go to Updates', scope: 'global' },
+    { action: 'goBrowse', label: 'Go to Browse', scope: 'global' },
+    { action: 'showShortcuts', label: 'Show keyboard shortcuts', scope: 'global' },
+];
+
+export const defaultKeymap: Keymap = {
+    scrollDown: ['PageDown', 'j'],
+    scrollUp: ['PageUp', 'k'],
+    nextChapter: ['ArrowRight', 'n'],
+    prevChapter: ['ArrowLeft', 'p'],
+    toggleOverlay: ['Space'],
+    openSettings: ['s'],
+    fontSizeUp: ['+', '='],
+    fontSizeDown: ['-'],
+    toggleSpeech: ['t'],
+    toggleAutoScroll: ['a'],
+    bookmark: ['m'],
+    find: ['Ctrl+f', '/'],
+    back: ['Escape'],
+    goLibrary: ['g l'],
+    goUpdates: ['g u'],
+    goBrowse: ['g b'],
+    showShortcuts: ['?'],
+};
+
+const KEYMAP_KEY = 'keymap';
+
+// Time allowed between the two keys of a sequence
+export const SEQUENCE_TIMEOUT = 1000;
+
+export const loadKeymap = (): Keymap => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(KEYMAP_KEY) || '{}');
+        const keymap = { ...defaultKeymap };
+        for (const { action } of keyActions) {
+            if (Array.isArray(saved[action])) keymap[action] = saved[action];
+        }
+        return keymap;
+    } catch {
+        return { ...defaultKeymap };
+    }
+};
+
+const listeners = new Set<() => void>();
+
+/**
+ * Subscribe to keymap saves. Returns the unsubscribe function.
+ */
+export const onKeymapChange = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const saveKeymap = (keymap: Keymap) => {
+    const changed = keyActions.reduce((acc, { action }) => {
+        if (keymap[action].join('|') !== defaultKeymap[action].join('|')) acc[action] = keymap[action];
+        return acc;
+    }, {} as Partial<Keymap>);
+    localStorage.setItem(KEYMAP_KEY, JSON.stringify(changed));
+    listeners.forEach((listener) => listener());
+};
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta'];
+
+/**
+ * Binding string for a keydown event, or null for a bare modifier press.
+ * Shift is only spelled out for non-character keys ("?" already implies it).
+ */
+export const eventToKey = (e: KeyboardEvent): string | null => {
+    if (MODIFIER_KEYS.includes(e.key)) return null;
+
+    const key = e.key === ' ' ? 'Space' : e.key;
+    const parts: string[] = [];
+    if (e.ctrlKey) parts.push('Ctrl');
+    if (e.altKey) parts.push('Alt');
+    if (e.metaKey) parts.push('Meta');
+    if (e.shiftKey && key.length > 1) parts.push('Shift');
+    parts.push(key.length === 1 && (e.ctrlKey || e.altKey || e.metaKey) ? key.toLowerCase() : key);
+    return parts.join('+');
+};
+
+export const isTypingTarget = (target: EventTarget | null) =>
+    target instanceof HTMLInputElement
+    || target instanceof HTMLTextAreaElement
+    || target instanceof HTMLSelectElement
+    || (target instanceof HTMLElement && target.isContentEditable);
+
+const KEY_LABELS: Record<string, string> = {
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    Escape: 'Esc',
+    PageDown: 'PgDn',
+    PageUp: 'PgUp',
+};
+
+// "Ctrl++" splits into ["Ctrl", "+"]
+const splitCombo = (combo: string) =>
+    combo.endsWith('+') ? [...combo.slice(0, -1).split('+').filter(Boolean), '+'] : combo.split('+');
+
+/**
+ * Human readable form of a binding, e.g. "g l" → "G then L".
+ */
+export const formatBinding = (binding: string) =>
+    binding
+        .split(' ')
+        .map((combo) => splitCombo(combo)
+            .map((part) => KEY_LABELS[part] || (part.length === 1 ? part.toUpperCase() : part))
+            .join(' + '))
+        .join(' then ');
+
+// Same binding, or one is the first key of the other's sequence ("g" would shadow "g l")
+const bindingsConflict = (a: string, b: string) =>
+    a === b || a.startsWith(`${b} `) || b.startsWith(`${a} `);
+
+// A single key that is also a later key of the other's sequence ("b" and "g b").
+// Only a clash across scopes, where two listeners see the same key press.
+const laterKeyConflict = (a: string, b: string) =>
+    b.split(' ').slice(1).includes(a) || a.split(' ').slice(1).includes(b);
+
+/**
+ * Action with a binding that clashes with the given one, and that binding.
+ * Reader and global shortcuts are active at the same time in the reader, so
+ * all actions are checked; the binding is taken to belong to the scope of
+ * the ignored action (the one it is being added to).
+ */
+export const findBindingConflict = (keymap: Keymap, binding: string, ignore?: KeyAction) => {
+    const scope = keyActions.find((entry) => entry.action === ignore)?.scope;
+    for (const entry of keyActions) {
+        if (entry.action === ignore) continue;
+        const existing = keymap[entry.action].find((b) => bindingsConflict(b, binding)
+            || (scope !== undefined && entry.scope !== scope && laterKeyConflict(b, binding)));
+        if (existing) return { ...entry, binding: existing };
+    }
+    return undefined;
+};
+
+/**
+ * Action bound to a two-key sequence, in any scope.
+ */
+export const findSequenceAction = (keymap: Keymap, sequence: string) =>
+    keyActions.find(({ action }) => keymap[action].includes(sequence));
+
+/**
+ * Whether the key starts a sequence bound in any scope.
+ */
+export const isSequenceStart = (keymap: Keymap, key: string) =>
+    keyActions.some(({ action }) => keymap[action].some((binding) => binding.startsWith(`${key} `)));
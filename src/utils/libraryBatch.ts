@@ -0,0 +1,143 @@
+/**
+ * Library batch actions - run an action over many library novels
+ *
+ * Each action reports progress per novel and how many novels succeeded or
+ * failed and, where it changes or removes data, returns an undo function
+ * that restores the previous state.
+ */
+
+import axios from 'axios';
+import { setChaptersRead } from './readState';
+import { filterAndSortChapters } from './chapterList';
+
+export interface BatchChapter {
+    id: number;
+    name: string;
+    path: string;
+    chapterNumber?: number;
+    isDownloaded: boolean;
+    unread: boolean;
+}
+
+export type ProgressCallback = (done: number) => void;
+
+export type CategoryMode = 'move' | 'copy';
+
+export interface BatchResult {
+    succeeded: number;
+    failed: number;
+}
+
+const fetchChapters = async (novelId: number): Promise<BatchChapter[]> => {
+    const res = await axios.get(`/api/novel/chapters?novelId=${novelId}`);
+    return res.data || [];
+};
+
+// Run one novel at a time so a large selection doesn't flood the server.
+// A failing novel doesn't stop the others; it is counted instead.
+const forEachNovel = async (
+    novelIds: number[],
+    onProgress: ProgressCallback,
+    action: (novelId: number) => Promise<void>
+): Promise<BatchResult> => {
+    const result: BatchResult = { succeeded: 0, failed: 0 };
+    for (const [index, novelId] of novelIds.entries()) {
+        try {
+            await action(novelId);
+            result.succeeded++;
+        } catch (e) {
+            console.error(`Batch action failed for novel ${novelId}:`, e);
+            result.failed++;
+        }
+        onProgress(index + 1);
+    }
+    return result;
+};
+
+/**
+ * Mark every chapter of the novels read or unread. Undo restores exactly the chapters that changed.
+ */
+export const markNovelsRead = async (novelIds: number[], read: boolean, onProgress: ProgressCallback) => {
+    const changed = new Map<number, number[]>();
+    const result = await forEachNovel(novelIds, onProgress, async (novelId) => {
+        const chapterIds = (await fetchChapters(novelId))
+            .filter((c) => c.unread === read)
+            .map((c) => c.id);
+        await setChaptersRead(chapterIds, read, novelId);
+        changed.set(novelId, chapterIds);
+    });
+    const undo = async () => {
+        for (const [novelId, chapterIds] of changed) {
+            await setChaptersRead(chapterIds, !read, novelId);
+        }
+    };
+    return { ...result, undo };
+};
+
+/**
+ * Queue unread chapters that aren't downloaded yet, all of them or only the next `limit`.
+ */
+export const downloadUnread = async (novelIds: number[], onProgress: ProgressCallback, limit?: number) => {
+    let queued = 0;
+    const result = await forEachNovel(novelIds, onProgress, async (novelId) => {
+        // Next chapters first by number (parsed from the name if needed), otherwise source order
+        const chapters = filterAndSortChapters(
+            await fetchChapters(novelId),
+            { filters: ['unread'], sortBy: 'number', sortAsc: true },
+            new Set()
+        ).filter((c) => !c.isDownloaded);
+        const toDownload = limit ? chapters.slice(0, limit) : chapters;
+        if (toDownload.length === 0) return;
+        await axios.post('/api/queue/download', { novelId, chapters: toDownload });
+        queued += toDownload.length;
+    });
+    return { ...result, queued };
+};
+
+const getNovelCategories = async (novelId: number): Promise<number[]> => {
+    const res = await axios.get(`/api/categories/novel/${novelId}`);
+    return (res.data || []).map((c: { id: number }) => c.id);
+};
+
+const setNovelCategories = async (novelId: number, current: number[], next: number[]) => {
+    for (const categoryId of current.filter((id) => !next.includes(id))) {
+        await axios.delete(`/api/categories/${categoryId}/novels/${novelId}`);
+    }
+    for (const categoryId of next.filter((id) => !current.includes(id))) {
+        await axios.post(`/api/categories/${categoryId}/novels`, { novelId });
+    }
+};
+
+/**
+ * Move (replace categories) or copy (add categories) novels. Undo restores the previous categories.
+ */
+export const assignCategories = async (
+    novelIds: number[],
+    categoryIds: number[],
+    mode: CategoryMode,
+    onProgress: ProgressCallback
+) => {
+    const previous = new Map<number, number[]>();
+    const result = await forEachNovel(novelIds, onProgress, async (novelId) => {
+        const current = await getNovelCategories(novelId);
+        previous.set(novelId, current);
+        const next = mode === 'move' ? categoryIds : Array.from(new Set([...current, ...categoryIds]));
+        await setNovelCategories(novelId, current, next);
+    });
+
+    const undo = async () => {
+        for (const [novelId, categories] of previous) {
+            await setNovelCategories(novelId, await getNovelCategories(novelId), categories);
+        }
+    };
+    return { ...result, undo };
+};
+
+export const updateNovels = async (novelIds: number[]) => {
+    await axios.post('/api/library/update', { novelIds });
+};
+
+export const removeNovels = (novelIds: number[], onProgress: ProgressCallback) =>
+    forEachNovel(novelIds, onProgress, async (novelId) => {
+        await axios.delete(`/api/library/${novelId}`);
+    });
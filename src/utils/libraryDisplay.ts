@@ -0,0 +1,97 @@
+/**
+ * Library display settings - sort and layout remembered per category tab
+ *
+ * Stored server-side as JSON in the library.categoryDisplay setting, keyed by
+ * category id (0 = All). Categories without saved settings fall back to the
+ * old device-wide localStorage values.
+ */
+
+import axios from 'axios';
+
+export type SortOption = 'name' | 'lastRead' | 'dateAdded' | 'unread';
+
+export type DisplayMode = 'grid' | 'compact' | 'cover' | 'list';
+
+export interface CategoryDisplaySettings {
+    sortBy: SortOption;
+    sortAsc: boolean;
+    displayMode: DisplayMode;
+    // Grid columns; 0 = automatic (depends on screen width)
+    columns: number;
+}
+
+export const sortOptions: { value: SortOption; label: string }[] = [
+    { value: 'name', label: 'Title' },
+    { value: 'lastRead', label: 'Last Read' },
+    { value: 'dateAdded', label: 'Date Added' },
+    { value: 'unread', label: 'Unread Count' },
+];
+
+export const displayModes: { value: DisplayMode; label: string }[] = [
+    { value: 'grid', label: 'Grid' },
+    { value: 'compact', label: 'Compact Grid' },
+    { value: 'cover', label: 'Cover Only' },
+    { value: 'list', label: 'List' },
+];
+
+export const MAX_COLUMNS = 10;
+
+const DISPLAY_SETTING = 'library.categoryDisplay';
+
+const isSortOption = (value: unknown): value is SortOption =>
+    sortOptions.some((o) => o.value === value);
+
+const isDisplayMode = (value: unknown): value is DisplayMode =>
+    displayModes.some((m) => m.value === value);
+
+// Device-wide values used before sort/display were saved per category
+export const getDefaultDisplaySettings = (): CategoryDisplaySettings => {
+    const sortBy = localStorage.getItem('library.sortBy');
+    const displayMode = localStorage.getItem('library.displayMode');
+    return {
+        sortBy: isSortOption(sortBy) ? sortBy : 'lastRead',
+        sortAsc: false,
+        displayMode: isDisplayMode(displayMode) ? displayMode : 'grid',
+        columns: 0,
+    };
+};
+
+const toDisplaySettings = (raw: Partial<CategoryDisplaySettings>): CategoryDisplaySettings => {
+    const defaults = getDefaultDisplaySettings();
+    return {
+        sortBy: isSortOption(raw.sortBy) ? raw.sortBy : defaults.sortBy,
+        sortAsc: typeof raw.sortAsc === 'boolean' ? raw.sortAsc : defaults.sortAsc,
+        displayMode: isDisplayMode(raw.displayMode) ? raw.displayMode : defaults.displayMode,
+        columns: Number.isInteger(raw.columns) ? Math.min(MAX_COLUMNS, Math.max(0, raw.columns!)) : 0,
+    };
+};
+
+export const loadCategoryDisplay = async (): Promise<Record<number, CategoryDisplaySettings>> => {
+    const res = await axios.get(`/api/settings/${DISPLAY_SETTING}`);
+    if (!res.data?.value) return {};
+    try {
+        const parsed = JSON.parse(res.data.value);
+        if (!parsed || typeof parsed !== 'object') return {};
+        return Object.fromEntries(
+            Object.entries(parsed as Record<string, Partial<CategoryDisplaySettings>>)
+                .map(([categoryId, raw]) => [Number(categoryId), toDisplaySettings(raw)])
+        );
+    } catch {
+        return {};
+    }
+};
+
+export const saveCategoryDisplay = async (display: Record<number, CategoryDisplaySettings>) => {
+    await axios.post(`/api/settings/${DISPLAY_SETTING}`, { value: JSON.stringify(display) });
+};
+
+/**
+ * CSS grid columns for a column count (0 = responsive default).
+ */
+export const getGridColumns = (columns: number, mode: DisplayMode) => {
+    if (columns > 0) return `repeat(${columns}, 1fr)`;
+    // Smaller covers fit more per row
+    return mode === 'grid'
+        ? { xs: 'repeat(2, 1fr)', sm: 'repeat(3, 1fr)', md: 'repeat(4, 1fr)', lg: 'repeat(6, 1fr)', xl: 'repeat(8, 1fr)' }
+        : { xs: 'repeat(3, 1fr)', sm: 'repeat(4, 1fr)', md: 'repeat(6, 1fr)', lg: 'repeat(8, 1fr)', xl: 'repeat(10, 1fr)' };
+};
@@ -0,0 +1,130 @@
+/**
+ * Library filters - tri-state (include / exclude / ignore) filtering of library novels
+ *
+ * Every group holds the values to include and to exclude. A novel passes when
+ * it has all included values and none of the excluded ones (source and status
+ * have a single value, so including several of them means "any of").
+ * Filters are saved per category in localStorage.
+ */
+
+import type { Novel } from '../components/NovelCard';
+
+// Extra fields the library endpoint returns
+export interface LibraryNovel extends Novel {
+    author?: string;
+    status?: string;
+    genres?: string;
+    totalChapters?: number;
+    chaptersRead?: number;
+    lastReadAt?: number;
+    addedAt?: number;
+    categoryIds?: number[];
+    trackerCount?: number;
+}
+
+export interface TriStateValue {
+    include?: string[];
+    exclude?: string[];
+}
+
+export type LibraryFilterGroup = 'flags' | 'sources' | 'statuses' | 'genres';
+
+export type LibraryFilterState = Record<LibraryFilterGroup, TriStateValue>;
+
+export type LibraryFlag = 'downloaded' | 'unread' | 'started' | 'completed' | 'tracked';
+
+export const libraryFlags: { value: LibraryFlag; label: string }[] = [
+    { value: 'downloaded', label: 'Downloaded' },
+    { value: 'unread', label: 'Unread' },
+    { value: 'started', label: 'Started' },
+    { value: 'completed', label: 'Completed' },
+    { value: 'tracked', label: 'Tracked' },
+];
+
+export const emptyFilters: LibraryFilterState = {
+    flags: {},
+    sources: {},
+    statuses: {},
+    genres: {},
+};
+
+const FILTERS_KEY = 'library.filters';
+
+export const splitGenres = (genres?: string) =>
+    (genres || '').split(',').map((g) => g.trim()).filter(Boolean);
+
+const hasFlag = (novel: LibraryNovel, flag: LibraryFlag) => {
+    const unread = novel.chaptersUnread || 0;
+    const started = (novel.chaptersRead || 0) > 0 || !!novel.lastReadAt;
+    switch (flag) {
+        case 'downloaded':
+            return (novel.chaptersDownloaded || 0) > 0;
+        case 'unread':
+            return unread > 0;
+        case 'started':
+            return started;
+        case 'completed':
+            // Everything read; without a chapter total, a started novel with nothing unread
+            return unread === 0 && (novel.totalChapters !== undefined ? novel.totalChapters > 0 : started);
+        case 'tracked':
+            return (novel.trackerCount || 0) > 0;
+    }
+};
+
+// All values of a group a novel has
+const getValues = (novel: LibraryNovel, group: LibraryFilterGroup): string[] => {
+    switch (group) {
+        case 'flags':
+            return libraryFlags.filter(({ value }) => hasFlag(novel, value)).map(({ value }) => value);
+        case 'sources':
+            return novel.pluginId ? [novel.pluginId] : [];
+        case 'statuses':
+            return novel.status ? [novel.status] : [];
+        case 'genres':
+            return splitGenres(novel.genres);
+    }
+};
+
+export const countActiveFilters = (filters: LibraryFilterState) =>
+    (Object.keys(filters) as LibraryFilterGroup[]).reduce(
+        (sum, group) => sum + (filters[group].include?.length || 0) + (filters[group].exclude?.length || 0),
+        0
+    );
+
+export const matchesFilters = (novel: LibraryNovel, filters: LibraryFilterState) =>
+    (Object.keys(filters) as LibraryFilterGroup[]).every((group) => {
+        const { include = [], exclude = [] } = filters[group];
+        if (include.length === 0 && exclude.length === 0) return true;
+
+        const values = getValues(novel, group);
+        if (exclude.some((v) => values.includes(v))) return false;
+        if (include.length === 0) return true;
+        // Single-valued groups can only match one included value
+        return group === 'sources' || group === 'statuses'
+            ? include.some((v) => values.includes(v))
+            : include.every((v) => values.includes(v));
+    });
+
+/**
+ * Options for the source / status / genre groups, taken from the library itself.
+ */
+export const getFilterOptions = (novels: LibraryNovel[], group: Exclude<LibraryFilterGroup, 'flags'>) =>
+    Array.from(new Set(novels.flatMap((n) => getValues(n, group))))
+        .sort((a, b) => a.localeCompare(b))
+        .map((value) => ({ value, label: value }));
+
+export const loadCategoryFilters = (): Record<number, LibraryFilterState> => {
+    try {
+        return JSON.parse(localStorage.getItem(FILTERS_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+export const saveCategoryFilters = (filters: Record<number, LibraryFilterState>) => {
+    // Drop categories without any active filter
+    const active = Object.fromEntries(
+        Object.entries(filters).filter(([, state]) => countActiveFilters(state) > 0)
+    );
+    localStorage.setItem(FILTERS_KEY, JSON.stringify(active));
+};
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import { createMemoryLibrarySearch, loadLibraryDocuments } from './librarySearch';
+import type { LibrarySearchDocument } from './librarySearch';
+
+const doc = (id: number, fields: Partial<LibrarySearchDocument>): LibrarySearchDocument => ({
+    id,
+    name: `Novel ${id}`,
+    cover: '',
+    chapters: [],
+    ...fields,
+});
+
+describe('createMemoryLibrarySearch', () => {
+    it('matches each metadata field case-insensitively', () => {
+        const search = createMemoryLibrarySearch([
+            doc(1, { name: 'The Dragon Prince' }),
+            doc(2, { author: 'Anna Dragonfly' }),
+            doc(3, { genres: 'Fantasy, Dragons' }),
+            doc(4, { summary: 'A story about a DRAGON and a knight.' }),
+            doc(5, { name: 'Unrelated', author: 'Someone', genres: 'Romance', summary: 'Nothing here.' }),
+        ]);
+
+        const results = search.search('dragon');
+
+        expect(results.map((r) => r.novelId).sort()).toEqual([1, 2, 3, 4]);
+        expect(results.find((r) => r.novelId === 1)?.fields).toEqual({ name: 1 });
+        expect(results.find((r) => r.novelId === 2)?.fields).toEqual({ author: 1 });
+        expect(results.find((r) => r.novelId === 3)?.fields).toEqual({ genres: 1 });
+        expect(results.find((r) => r.novelId === 4)?.fields).toEqual({ summary: 1 });
+    });
+
+    it('ranks title over author over genres over summary', () => {
+        const search = createMemoryLibrarySearch([
+            doc(1, { summary: 'magic' }),
+            doc(2, { genres: 'magic' }),
+            doc(3, { author: 'magic' }),
+            doc(4, { name: 'magic' }),
+        ]);
+
+        expect(search.search('magic').map((r) => r.novelId)).toEqual([4, 3, 2, 1]);
+    });
+
+    it('does not let many chapter hits bury a title match', () => {
+        const text = Array.from({ length: 200 }, () => 'sword').join(' ');
+        const search = createMemoryLibrarySearch([
+            doc(1, { chapters: [{ id: 10, name: 'Chapter 1', text }] }),
+            doc(2, { name: 'The Sword' }),
+        ]);
+
+        const results = search.search('sword');
+
+        expect(results.map((r) => r.novelId)).toEqual([2, 1]);
+        expect(results[1].chapterHits).toBe(200);
+    });
+
+    it('groups chapter hits by novel with counts and snippets', () => {
+        const search = createMemoryLibrarySearch([
+            doc(1, {
+                chapters: [
+                    { id: 10, name: 'Chapter 1', text: 'One ember.' },
+                    { id: 11, name: 'Chapter 2', text: 'An ember, another ember and a third ember.' },
+                    { id: 12, name: 'Chapter 3', text: 'Nothing.' },
+                ],
+            }),
+        ]);
+
+        const [result] = search.search('ember');
+
+        expect(result.chapterHits).toBe(4);
+        expect(result.chapters.map((c) => [c.chapterId, c.count])).toEqual([[11, 3], [10, 1]]);
+        expect(result.chapters[0].snippets).toHaveLength(2);
+        expect(result.chapters[0].snippets[0].text).toBe('ember');
+    });
+
+    it('breaks score ties by name and skips short queries', () => {
+        const search = createMemoryLibrarySearch([
+            doc(1, { name: 'Beta Tower' }),
+            doc(2, { name: 'Alpha Tower' }),
+        ]);
+
+        expect(search.search('tower').map((r) => r.name)).toEqual(['Alpha Tower', 'Beta Tower']);
+        expect(search.search(' ')).toEqual([]);
+    });
+});
+
+describe('loadLibraryDocuments', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('loads novel details a few at a time and keeps library order', async () => {
+        const novels = Array.from({ length: 20 }, (_, i) => ({ id: i + 1, name: `Novel ${i + 1}`, cover: '' }));
+        let inFlight = 0;
+        let maxInFlight = 0;
+        vi.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+            if (url === '/api/library') return { data: novels };
+            const match = url.match(/^\/api\/novel\/(\d+)$/);
+            if (!match) throw new Error(`Unexpected request ${url}`);
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            // Later novels answer first
+            await new Promise((resolve) => setTimeout(resolve, 40 - Number(match[1])));
+            inFlight--;
+            return { data: { author: `Author ${match[1]}` } };
+        });
+
+        const documents = await loadLibraryDocuments();
+
+        expect(documents.map((d) => d.id)).toEqual(novels.map((n) => n.id));
+        expect(documents[4].author).toBe('Author 5');
+        expect(maxInFlight).toBeGreaterThan(1);
+        expect(maxInFlight).toBeLessThanOrEqual(6);
+    });
+});
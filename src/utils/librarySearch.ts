@@ -0,0 +1,183 @@
+/**
+ * Library search utility - full-text search across the whole library
+ *
+ * Matches title, author, genres, summary and the text of downloaded chapters.
+ * Results are ranked and grouped by novel.
+ *
+ * The server answers GET /api/library/search?q=... with LibrarySearchResult[].
+ * When that endpoint is missing or the server can't be reached, the same
+ * search runs in memory over the library details and the offline chapter
+ * copies (createMemoryLibrarySearch). Chapter text goes through the reader's
+ * content pipeline, so hits match what the reader shows.
+ */
+
+import axios from 'axios';
+import { findMatchOffsets, getSnippet, htmlToText } from './chapterSearch';
+import type { ChapterSearchResult } from './chapterSearch';
+import { getOfflineChapters, isOfflineStoreSupported } from './offlineStore';
+import { loadContentOptions, prepareChapterHtml } from './chapterContent';
+
+export type SearchField = 'name' | 'author' | 'genres' | 'summary';
+
+export interface LibrarySearchResult {
+    novelId: number;
+    name: string;
+    cover: string;
+    score: number;
+    // Matches per metadata field (only fields that matched)
+    fields: Partial<Record<SearchField, number>>;
+    // Total matches in chapter text
+    chapterHits: number;
+    chapters: ChapterSearchResult[];
+}
+
+export interface LibrarySearchDocument {
+    id: number;
+    name: string;
+    cover: string;
+    author?: string;
+    genres?: string;
+    summary?: string;
+    chapters: { id: number; name: string; text: string }[];
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+    name: 10,
+    author: 6,
+    genres: 4,
+    summary: 2,
+};
+const CHAPTER_WEIGHT = 1;
+const CHAPTERS_PER_NOVEL = 5;
+const SNIPPETS_PER_CHAPTER = 2;
+
+/**
+ * Rank: metadata matches count fully, chapter hits grow logarithmically so a
+ * long novel mentioning a word often doesn't bury a title match.
+ */
+const getScore = (fields: LibrarySearchResult['fields'], chapterHits: number) =>
+    (Object.keys(fields) as SearchField[]).reduce((sum, field) => sum + FIELD_WEIGHTS[field] * (fields[field] || 0), 0)
+    + (chapterHits > 0 ? CHAPTER_WEIGHT * (1 + Math.log2(chapterHits)) : 0);
+
+/**
+ * In-memory stand-in for the search endpoint, used as the offline fallback and in tests.
+ */
+export const createMemoryLibrarySearch = (documents: LibrarySearchDocument[]) => ({
+    search: (query: string): LibrarySearchResult[] => {
+        const length = query.trim().length;
+        const results: LibrarySearchResult[] = [];
+
+        for (const doc of documents) {
+            const fields: LibrarySearchResult['fields'] = {};
+            for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+                const count = findMatchOffsets(doc[field] || '', query).length;
+                if (count > 0) fields[field] = count;
+            }
+
+            const chapters: ChapterSearchResult[] = [];
+            for (const chapter of doc.chapters) {
+                const offsets = findMatchOffsets(chapter.text, query);
+                if (offsets.length === 0) continue;
+                chapters.push({
+                    chapterId: chapter.id,
+                    chapterName: chapter.name,
+                    count: offsets.length,
+                    snippets: offsets
+                        .slice(0, SNIPPETS_PER_CHAPTER)
+                        .map((offset, match) => getSnippet(chapter.text, offset, length, match)),
+                });
+            }
+
+            const chapterHits = chapters.reduce((sum, c) => sum + c.count, 0);
+            if (Object.keys(fields).length === 0 && chapterHits === 0) continue;
+
+            chapters.sort((a, b) => b.count - a.count);
+            results.push({
+                novelId: doc.id,
+                name: doc.name,
+                cover: doc.cover,
+                score: getScore(fields, chapterHits),
+                fields,
+                chapterHits,
+                chapters: chapters.slice(0, CHAPTERS_PER_NOVEL),
+            });
+        }
+
+        return results.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+    },
+});
+
+// Novel details are loaded a few at a time; one by one is slow on a large library
+const LOAD_CONCURRENCY = 6;
+
+/**
+ * Build search documents from the library and the downloaded chapters stored offline.
+ */
+export const loadLibraryDocuments = async (): Promise<LibrarySearchDocument[]> => {
+    const libraryRes = await axios.get('/api/library');
+    const contentOptions = await loadContentOptions();
+    const novels = (libraryRes.data || []) as { id: number; name: string; cover: string }[];
+    const documents: LibrarySearchDocument[] = new Array(novels.length);
+
+    const loadDocument = async (novel: typeof novels[number]): Promise<LibrarySearchDocument> => {
+        const [details, chapters] = await Promise.all([
+            axios.get(`/api/novel/${novel.id}`)
+                .then((res) => res.data || {})
+                .catch(() => ({})),
+            isOfflineStoreSupported() ? getOfflineChapters(novel.id).catch(() => []) : [],
+        ]);
+        return {
+            id: novel.id,
+            name: novel.name,
+            cover: novel.cover,
+            author: details.author,
+            genres: details.genres,
+            summary: details.summary,
+            chapters: chapters.map((c) => ({
+                id: c.id,
+                name: c.name,
+                text: htmlToText(prepareChapterHtml(c.content, { ...c, pluginId: c.pluginId as string | undefined }, contentOptions)),
+            })),
+        };
+    };
+
+    // Each worker takes the next novel until none are left; results keep library order
+    let next = 0;
+    const worker = async () => {
+        while (next < novels.length) {
+            const index = next++;
+            documents[index] = await loadDocument(novels[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(LOAD_CONCURRENCY, novels.length) }, worker));
+    return documents;
+};
+
+// Documents are rebuilt at most this often for the fallback search
+const DOCUMENTS_TTL = 5 * 60 * 1000;
+let documentsCache: { loadedAt: number; documents: Promise<LibrarySearchDocument[]> } | null = null;
+
+const getLibraryDocuments = () => {
+    if (!documentsCache || Date.now() - documentsCache.loadedAt > DOCUMENTS_TTL) {
+        const documents = loadLibraryDocuments();
+        documentsCache = { loadedAt: Date.now(), documents };
+        documents.catch(() => {
+            documentsCache = null;
+        });
+    }
+    return documentsCache.documents;
+};
+
+/**
+ * Search the library, on the server when it supports it, otherwise in memory.
+ */
+export const searchLibrary = async (query: string): Promise<LibrarySearchResult[]> => {
+    try {
+        const res = await axios.get(`/api/library/search?q=${encodeURIComponent(query.trim())}`);
+        return res.data;
+    } catch (e) {
+        // Fall back for a server without the endpoint or one that can't be reached
+        if (axios.isAxiosError(e) && e.response && e.response.status < 500 && e.response.status !== 404) throw e;
+    }
+    return createMemoryLibrarySearch(await getLibraryDocuments()).search(query);
+};
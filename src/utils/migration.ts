@@ -0,0 +1,258 @@
+/**
+ * Source migration - move a library novel to a different plugin
+ *
+ * Chapters are paired between the old and new source by chapter number, so
+ * read state and annotations land on the same chapter even when the two
+ * sources name or split their chapter lists differently. Categories and
+ * tracker links belong to the novel and are copied as-is.
+ */
+
+import axios from 'axios';
+import { setChaptersRead } from './readState';
+import { getChapterNumber } from './chapterList';
+import type { Annotation } from './annotations';
+import { getTrackEntries, TRACKER_API } from './trackers';
+import type { TrackEntry } from './trackers';
+
+export interface MigrationCandidate {
+    pluginId: string;
+    pluginName: string;
+    name: string;
+    cover: string;
+    path: string;
+}
+
+export interface MigrationChapter {
+    id: number;
+    name: string;
+    path: string;
+    chapterNumber?: number;
+    unread: boolean;
+}
+
+export interface MigrationSource {
+    id: number;
+    name: string;
+    cover: string;
+    pluginId: string;
+    path: string;
+}
+
+export interface ChapterMatch {
+    from: MigrationChapter;
+    to?: MigrationChapter;
+}
+
+export interface MigrationPlan {
+    source: MigrationSource;
+    target: MigrationCandidate;
+    matches: ChapterMatch[];
+    targetChapterCount: number;
+    annotations: Annotation[];
+    categories: { id: number; name: string }[];
+    trackers: TrackEntry[];
+}
+
+export interface MigrationSummary {
+    matched: number;
+    unmatched: ChapterMatch[];
+    readCarried: number;
+    readLost: number;
+    annotationsCarried: number;
+    annotationsLost: number;
+    newChapters: number;
+}
+
+/**
+ * Lowercase title without punctuation, edition tags like "(WN)" or "[Novel]" and a leading article.
+ * Also used for duplicate detection, so both agree on what counts as the same title.
+ */
+export const normalizeTitle = (title: string) =>
+    title
+        .toLowerCase()
+        .replace(/[([{][^)\]}]*[)\]}]/g, ' ')
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim()
+        .replace(/^(the|a|an) /, '');
+
+/**
+ * Pair every old chapter with the new chapter that has the same number.
+ */
+export const matchChapters = (from: MigrationChapter[], to: MigrationChapter[]): ChapterMatch[] => {
+    const byNumber = new Map<number, MigrationChapter>();
+    for (const chapter of to) {
+        const number = getChapterNumber(chapter);
+        if (number !== null && !byNumber.has(number)) byNumber.set(number, chapter);
+    }
+    return from.map((chapter) => {
+        const number = getChapterNumber(chapter);
+        return { from: chapter, to: number === null ? undefined : byNumber.get(number) };
+    });
+};
+
+export const summarizePlan = (plan: MigrationPlan): MigrationSummary => {
+    const matchedIds = new Set(plan.matches.filter((m) => m.to).map((m) => m.from.id));
+    const read = plan.matches.filter((m) => !m.from.unread);
+    const carriedAnnotations = plan.annotations.filter((a) => matchedIds.has(a.chapterId)).length;
+    return {
+        matched: matchedIds.size,
+        unmatched: plan.matches.filter((m) => !m.to),
+        readCarried: read.filter((m) => m.to).length,
+        readLost: read.filter((m) => !m.to).length,
+        annotationsCarried: carriedAnnotations,
+        annotationsLost: plan.annotations.length - carriedAnnotations,
+        newChapters: Math.max(0, plan.targetChapterCount - matchedIds.size),
+    };
+};
+
+/**
+ * Search every installed plugin except the current one, best title matches first.
+ */
+export const searchMigrationCandidates = async (query: string, excludePluginId: string): Promise<MigrationCandidate[]> => {
+    const res = await axios.get(`/api/source/search?query=${encodeURIComponent(query)}`);
+    const wanted = normalizeTitle(query);
+    const candidates: MigrationCandidate[] = (res.data || [])
+        .filter((group: { pluginId: string }) => group.pluginId !== excludePluginId)
+        .flatMap((group: { pluginId: string; pluginName: string; novels: { name: string; cover: string; path: string }[] }) =>
+            group.novels.map((novel) => ({ ...novel, pluginId: group.pluginId, pluginName: group.pluginName }))
+        );
+
+    const rank = (candidate: MigrationCandidate) => {
+        const title = normalizeTitle(candidate.name);
+        if (title === wanted) return 0;
+        if (title.startsWith(wanted) || wanted.startsWith(title)) return 1;
+        return title.includes(wanted) ? 2 : 3;
+    };
+    return candidates.sort((a, b) => rank(a) - rank(b));
+};
+
+// Tracker links are optional on the server; a missing endpoint means none
+const getTrackerLinks = async (novelId: number): Promise<TrackEntry[]> => {
+    try {
+        return await getTrackEntries(novelId);
+    } catch {
+        return [];
+    }
+};
+
+export const getMigrationSource = async (novelId: number): Promise<MigrationSource> => {
+    const res = await axios.get(`/api/novel/${novelId}`);
+    const { id, name, cover, pluginId, path } = res.data;
+    return { id, name, cover, pluginId, path };
+};
+
+/**
+ * Collect everything needed to preview and run a migration.
+ */
+export const buildMigrationPlan = async (source: MigrationSource, target: MigrationCandidate): Promise<MigrationPlan> => {
+    const [fromRes, toRes, annotationsRes, categoriesRes, trackers] = await Promise.all([
+        axios.get(`/api/novel/chapters?novelId=${source.id}`),
+        axios.get(`/api/novel/chapters?path=${encodeURIComponent(target.path)}&pluginId=${target.pluginId}`),
+        axios.get(`/api/annotations?novelId=${source.id}`),
+        axios.get(`/api/categories/novel/${source.id}`),
+        getTrackerLinks(source.id),
+    ]);
+    const targetChapters: MigrationChapter[] = toRes.data || [];
+    return {
+        source,
+        target,
+        matches: matchChapters(fromRes.data || [], targetChapters),
+        targetChapterCount: targetChapters.length,
+        annotations: annotationsRes.data || [],
+        categories: categoriesRes.data || [],
+        trackers,
+    };
+};
+
+/**
+ * Add the new novel to the library, carry over read state, annotations,
+ * categories and tracker links, then optionally remove the old entry.
+ * Returns the library id of the new novel.
+ *
+ * The steps are separate requests. If carrying over fails, a novel added here
+ * is removed again; the thrown error's message says what state was left behind.
+ */
+export const applyMigration = async (plan: MigrationPlan, removeOld: boolean): Promise<number> => {
+    const { source, target } = plan;
+
+    let addedHere: boolean;
+    let novelId: number;
+    try {
+        const existing = await axios.get(`/api/novel?path=${encodeURIComponent(target.path)}&pluginId=${target.pluginId}`);
+        addedHere = !existing.data?.inLibrary;
+        if (addedHere) {
+            await axios.post('/api/library/manage', { novelPath: target.path, pluginId: target.pluginId });
+        }
+        const added = await axios.get(`/api/novel?path=${encodeURIComponent(target.path)}&pluginId=${target.pluginId}`);
+        novelId = added.data.id;
+    } catch (e) {
+        console.error('Failed to add the new novel:', e);
+        throw new Error('Migration failed. The old entry was kept.');
+    }
+
+    try {
+        await carryOver(plan, novelId);
+    } catch (e) {
+        console.error('Migration failed while carrying over data:', e);
+        if (!addedHere) {
+            throw new Error(`Migration failed part way. "${target.name}" was already in the library and may be partly updated. The old entry was kept.`);
+        }
+        try {
+            await axios.delete(`/api/library/${novelId}`);
+        } catch (cleanupError) {
+            console.error('Failed to remove the partly migrated novel:', cleanupError);
+            throw new Error(`Migration failed and "${target.name}" could not be removed from the library again. The old entry was kept.`);
+        }
+        throw new Error('Migration failed, nothing was changed. The old entry was kept.');
+    }
+
+    if (removeOld && novelId !== source.id) {
+        try {
+            await axios.delete(`/api/library/${source.id}`);
+        } catch (e) {
+            console.error('Failed to remove the old entry:', e);
+            throw new Error(`Migrated to "${target.name}", but the old entry could not be removed.`);
+        }
+    }
+
+    return novelId;
+};
+
+const carryOver = async (plan: MigrationPlan, novelId: number) => {
+    // Library chapters have ids now, so match again against those
+    const chaptersRes = await axios.get(`/api/novel/chapters?novelId=${novelId}`);
+    const matches = matchChapters(plan.matches.map((m) => m.from), chaptersRes.data || []);
+    const chapterMap = new Map(matches.filter((m) => m.to).map((m) => [m.from.id, m.to!]));
+
+    await setChaptersRead(
+        matches.filter((m) => m.to?.unread && !m.from.unread).map((m) => m.to!.id),
+        true,
+        novelId
+    );
+
+    for (const annotation of plan.annotations) {
+        const chapter = chapterMap.get(annotation.chapterId);
+        if (!chapter) continue;
+        await axios.post('/api/annotations', {
+            novelId,
+            chapterId: chapter.id,
+            chapterName: chapter.name,
+            type: annotation.type,
+            color: annotation.color,
+            note: annotation.note,
+            quote: annotation.quote,
+            position: annotation.position,
+        });
+    }
+
+    // The new entry may already be in the library (e.g. when merging duplicates)
+    const currentRes = await axios.get(`/api/categories/novel/${novelId}`);
+    const current = new Set((currentRes.data || []).map((c: { id: number }) => c.id));
+    for (const category of plan.categories.filter((c) => !current.has(c.id))) {
+        await axios.post(`/api/categories/${category.id}/novels`, { novelId });
+    }
+
+    for (const link of plan.trackers) {
+        await axios.post(`${TRACKER_API}/novel/${novelId}`, link);
+    }
+};
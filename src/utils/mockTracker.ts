@@ -0,0 +1,140 @@
+/**
+ * Mock tracker API - an in-memory stand-in for the server's tracker endpoints
+ *
+ * Installed as an axios adapter, it answers the requests made by
+ * src/utils/trackers.ts (status, search, bind, get, update, refresh, unbind)
+ * so the tracker dialog can be driven without a server or a real tracker.
+ * Used by the tests; editRemote stands in for edits made on the tracker's site.
+ */
+
+import { AxiosError } from 'axios';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { TRACKER_API, getTracker } from './trackers';
+import type { TrackEntry, TrackEntryPatch, TrackerSearchResult } from './trackers';
+
+export interface MockTrackerOptions {
+    // Trackers that report as connected in GET /status (registry ids)
+    connected: string[];
+    // Search catalog per tracker
+    catalog: Record<string, TrackerSearchResult[]>;
+}
+
+export interface MockTracker {
+    adapter: AxiosAdapter;
+    // Entries as stored on the trackers, per novel and tracker
+    entries: Map<number, Map<string, TrackEntry>>;
+    // Every request the mock answered, e.g. "PUT /novel/1/AniList"
+    requests: { method: string; path: string; body?: unknown }[];
+    // Change an entry on the tracker's side, as if edited on its website
+    editRemote: (novelId: number, tracker: string, patch: TrackEntryPatch) => void;
+}
+
+const respond = (config: InternalAxiosRequestConfig, status: number, data: unknown): AxiosResponse => {
+    const response: AxiosResponse = { data, status, statusText: String(status), headers: {}, config };
+    if (status >= 400) {
+        throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, null, response);
+    }
+    return response;
+};
+
+// An empty string clears a date, as the server does
+const applyPatch = (entry: TrackEntry, patch: TrackEntryPatch): TrackEntry => {
+    const next = { ...entry, ...patch };
+    if (next.startDate === '') delete next.startDate;
+    if (next.finishDate === '') delete next.finishDate;
+    return next;
+};
+
+export const createMockTracker = ({ connected: initiallyConnected, catalog }: MockTrackerOptions): MockTracker => {
+    const connected = [...initiallyConnected];
+    const entries = new Map<number, Map<string, TrackEntry>>();
+    const requests: MockTracker['requests'] = [];
+
+    const novelEntries = (novelId: number) => {
+        if (!entries.has(novelId)) entries.set(novelId, new Map());
+        return entries.get(novelId)!;
+    };
+
+    const handle = (config: InternalAxiosRequestConfig, method: string, path: string, query: URLSearchParams, body: Record<string, unknown>) => {
+        if (method === 'GET' && path === '/status') {
+            return respond(config, 200, Object.fromEntries(connected.map((id) => [getTracker(id)?.statusKey ?? id, { connected: true, username: 'mock' }])));
+        }
+
+        let match = path.match(/^\/([^/]+)\/search$/);
+        if (method === 'GET' && match) {
+            const needle = (query.get('query') || '').toLowerCase();
+            return respond(config, 200, (catalog[match[1]] || []).filter((r) => r.title.toLowerCase().includes(needle)));
+        }
+
+        match = path.match(/^\/([^/]+)\/login$/);
+        if (method === 'POST' && match) {
+            if (!connected.includes(match[1])) connected.push(match[1]);
+            return respond(config, 200, { connected: true });
+        }
+
+        match = path.match(/^\/novel\/(\d+)$/);
+        if (match) {
+            const bound = novelEntries(Number(match[1]));
+            if (method === 'GET') return respond(config, 200, Array.from(bound.values()));
+            if (method === 'POST') {
+                const tracker = String(body.tracker);
+                const result = (catalog[tracker] || []).find((r) => r.remoteId === body.remoteId);
+                if (!result) return respond(config, 404, { error: 'Not found on tracker' });
+                const entry: TrackEntry = {
+                    tracker,
+                    remoteId: result.remoteId,
+                    title: result.title,
+                    status: 'plan_to_read',
+                    score: 0,
+                    progress: 0,
+                    totalChapters: result.totalChapters,
+                };
+                bound.set(tracker, entry);
+                return respond(config, 200, entry);
+            }
+        }
+
+        match = path.match(/^\/novel\/(\d+)\/([^/]+)(\/refresh)?$/);
+        if (match) {
+            const bound = novelEntries(Number(match[1]));
+            const entry = bound.get(match[2]);
+            if (!entry) return respond(config, 404, { error: 'Not bound' });
+            if (method === 'POST' && match[3]) return respond(config, 200, entry);
+            if (method === 'PUT' && !match[3]) {
+                const next = applyPatch(entry, body as TrackEntryPatch);
+                bound.set(match[2], next);
+                return respond(config, 200, next);
+            }
+            if (method === 'DELETE' && !match[3]) {
+                bound.delete(match[2]);
+                return respond(config, 200, {});
+            }
+        }
+
+        return respond(config, 404, { error: `No mock for ${method} ${path}` });
+    };
+
+    const adapter: AxiosAdapter = async (config) => {
+        const url = new URL(config.url || '', 'http://mock.invalid');
+        const root = new URL(TRACKER_API, 'http://mock.invalid').pathname;
+        if (!url.pathname.startsWith(root)) {
+            return respond(config, 404, { error: `Not a tracker request: ${url.pathname}` });
+        }
+        const method = (config.method || 'get').toUpperCase();
+        const path = url.pathname.slice(root.length);
+        const body = typeof config.data === 'string' && config.data ? JSON.parse(config.data) : {};
+        requests.push({ method, path, body: config.data ? body : undefined });
+        return handle(config, method, path, url.searchParams, body);
+    };
+
+    return {
+        adapter,
+        entries,
+        requests,
+        editRemote: (novelId, tracker, patch) => {
+            const bound = novelEntries(novelId);
+            const entry = bound.get(tracker);
+            if (entry) bound.set(tracker, applyPatch(entry, patch));
+        },
+    };
+};
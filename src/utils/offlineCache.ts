@@ -0,0 +1,152 @@
+/**
+ * Offline cache - keeps Library, Novel and Reader usable when the server is unreachable
+ *
+ * - An axios interceptor stores library/novel responses and answers GETs from
+ *   IndexedDB when the server can't be reached
+ * - Downloaded chapters are copied into IndexedDB in the background
+ * - Tracks whether the UI is currently running from the offline cache
+ */
+
+import axios from 'axios';
+import type { AxiosError, AxiosResponse } from 'axios';
+import {
+    isOfflineStoreSupported,
+    saveOfflineChapter,
+    getOfflineChapter,
+    deleteOfflineChapter,
+    getOfflineChapterIds,
+    saveOfflineResponse,
+    getOfflineResponse,
+} from './offlineStore';
+
+// Responses kept for offline browsing
+const CACHED_RESPONSES = [
+    /^\/api\/library$/,
+    /^\/api\/categories$/,
+    /^\/api\/novel\/\d+$/,
+    /^\/api\/novel\/chapters\?novelId=\d+$/,
+    /^\/api\/settings\/reader$/,
+    /^\/api\/replacements$/,
+];
+const CHAPTER_URL = /^\/api\/novel\/chapter\?chapterId=(\d+)$/;
+
+const SYNC_INTERVAL = 30 * 60 * 1000;
+const LAST_SYNC_KEY = 'offline_last_sync';
+
+// --- Offline status ---
+
+let serverUnreachable = false;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const setServerUnreachable = (value: boolean) => {
+    if (serverUnreachable === value) return;
+    serverUnreachable = value;
+    notify();
+};
+
+export const isOffline = () => serverUnreachable || !navigator.onLine;
+
+export const subscribeOffline = (listener: () => void) => {
+    listeners.add(listener);
+    window.addEventListener('online', listener);
+    window.addEventListener('offline', listener);
+    return () => {
+        listeners.delete(listener);
+        window.removeEventListener('online', listener);
+        window.removeEventListener('offline', listener);
+    };
+};
+
+// --- Interceptor ---
+
+const isUnreachable = (error: AxiosError) =>
+    !error.response || [502, 503, 504].includes(error.response.status);
+
+const getCachedData = async (url: string): Promise<unknown> => {
+    const chapterMatch = url.match(CHAPTER_URL);
+    if (chapterMatch) {
+        return getOfflineChapter(parseInt(chapterMatch[1], 10));
+    }
+    if (CACHED_RESPONSES.some((pattern) => pattern.test(url))) {
+        return getOfflineResponse(url);
+    }
+    return undefined;
+};
+
+/**
+ * Install the axios interceptor. Called once at startup.
+ */
+export const installOfflineCache = () => {
+    if (!isOfflineStoreSupported()) return;
+
+    axios.interceptors.response.use(
+        (response) => {
+            const url = response.config.url || '';
+            if (url.startsWith('/api/')) setServerUnreachable(false);
+            if (response.config.method === 'get' && CACHED_RESPONSES.some((pattern) => pattern.test(url))) {
+                saveOfflineResponse(url, response.data).catch((e) => console.error('Failed to cache response:', e));
+            }
+            return response;
+        },
+        async (error: AxiosError) => {
+            const config = error.config;
+            const url = config?.url || '';
+            if (!config || !url.startsWith('/api/') || !isUnreachable(error)) throw error;
+
+            setServerUnreachable(true);
+            if (config.method !== 'get') throw error;
+
+            const cached = await getCachedData(url).catch(() => undefined);
+            if (cached === undefined) throw error;
+            return { data: cached, status: 200, statusText: 'OK', headers: {}, config } as AxiosResponse;
+        }
+    );
+};
+
+// --- Downloaded chapters ---
+
+export const cacheChapter = async (chapterId: number) => {
+    const res = await axios.get(`/api/novel/chapter?chapterId=${chapterId}`);
+    if (res.data?.content) {
+        await saveOfflineChapter(res.data);
+    }
+};
+
+export const removeCachedChapters = (chapterIds: number[]) =>
+    Promise.all(chapterIds.map((id) => deleteOfflineChapter(id)));
+
+let syncing = false;
+
+/**
+ * Copy every downloaded library chapter into IndexedDB and drop deleted ones.
+ * Runs at most every 30 minutes unless forced.
+ */
+export const syncDownloadedChapters = async (force = false) => {
+    if (syncing || !isOfflineStoreSupported() || isOffline()) return;
+    const lastSync = parseInt(localStorage.getItem(LAST_SYNC_KEY) || '0', 10);
+    if (!force && Date.now() - lastSync < SYNC_INTERVAL) return;
+
+    syncing = true;
+    try {
+        const libraryRes = await axios.get('/api/library');
+        for (const novel of libraryRes.data as { id: number }[]) {
+            const chaptersRes = await axios.get(`/api/novel/chapters?novelId=${novel.id}`);
+            const stored = new Set(await getOfflineChapterIds(novel.id));
+
+            for (const chapter of chaptersRes.data as { id: number; isDownloaded?: boolean }[]) {
+                if (chapter.isDownloaded && !stored.has(chapter.id)) {
+                    await cacheChapter(chapter.id);
+                } else if (!chapter.isDownloaded && stored.has(chapter.id)) {
+                    await deleteOfflineChapter(chapter.id);
+                }
+            }
+        }
+        localStorage.setItem(LAST_SYNC_KEY, String(Date.now()));
+    } catch (e) {
+        console.error('Offline chapter sync failed:', e);
+    } finally {
+        syncing = false;
+    }
+};
@@ -0,0 +1,84 @@
+/**
+ * Offline store - IndexedDB storage for using the UI without the server
+ *
+ * - chapters: full chapter payloads of downloaded chapters, keyed by chapter id
+ * - responses: last successful API responses (library, novel details, chapter lists), keyed by URL
+ */
+
+const DB_NAME = 'lightyomi-offline';
+const DB_VERSION = 1;
+const CHAPTERS = 'chapters';
+const RESPONSES = 'responses';
+
+export interface OfflineChapter {
+    id: number;
+    novelId: number;
+    name: string;
+    content: string;
+    savedAt: number;
+    [key: string]: unknown;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(CHAPTERS)) {
+                    const chapters = db.createObjectStore(CHAPTERS, { keyPath: 'id' });
+                    chapters.createIndex('novelId', 'novelId');
+                }
+                if (!db.objectStoreNames.contains(RESPONSES)) {
+                    db.createObjectStore(RESPONSES);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+// Run a single request in its own transaction
+const run = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(storeName, mode).objectStore(storeName));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const isOfflineStoreSupported = () => typeof indexedDB !== 'undefined';
+
+export const saveOfflineChapter = (chapter: Omit<OfflineChapter, 'savedAt'>) =>
+    run<IDBValidKey>(CHAPTERS, 'readwrite', (store) => store.put({ ...chapter, savedAt: Date.now() }));
+
+export const getOfflineChapter = (chapterId: number) =>
+    run<OfflineChapter | undefined>(CHAPTERS, 'readonly', (store) => store.get(chapterId));
+
+export const deleteOfflineChapter = (chapterId: number) =>
+    run<undefined>(CHAPTERS, 'readwrite', (store) => store.delete(chapterId));
+
+export const getOfflineChapters = (novelId: number) =>
+    run<OfflineChapter[]>(CHAPTERS, 'readonly', (store) => store.index('novelId').getAll(novelId));
+
+export const getOfflineChapterIds = (novelId: number) =>
+    run<IDBValidKey[]>(CHAPTERS, 'readonly', (store) => store.index('novelId').getAllKeys(novelId))
+        .then((keys) => keys as number[]);
+
+export const saveOfflineResponse = (url: string, data: unknown) =>
+    run<IDBValidKey>(RESPONSES, 'readwrite', (store) => store.put(data, url));
+
+export const getOfflineResponse = <T = unknown>(url: string) =>
+    run<T | undefined>(RESPONSES, 'readonly', (store) => store.get(url));
@@ -0,0 +1,38 @@
+/**
+ * Read state utility - mark chapters read or unread
+ *
+ * POST /api/novel/chapter/read { chapterIds, read } updates many chapters at once.
+ * Listeners are told about every change so unread counts shown elsewhere
+ * (library badges) update without a refetch.
+ */
+
+import axios from 'axios';
+
+export interface ReadStateChange {
+    novelId: number;
+    // Only chapters whose state actually changed
+    chapterIds: number[];
+    read: boolean;
+}
+
+type ReadStateListener = (change: ReadStateChange) => void;
+
+const listeners = new Set<ReadStateListener>();
+
+/**
+ * Subscribe to read state changes. Returns the unsubscribe function.
+ */
+export const onReadStateChange = (listener: ReadStateListener) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const setChaptersRead = async (chapterIds: number[], read: boolean, novelId?: number) => {
+    if (chapterIds.length === 0) return;
+    await axios.post('/api/novel/chapter/read', { chapterIds, read });
+    if (novelId !== undefined) {
+        listeners.forEach((listener) => listener({ novelId, chapterIds, read }));
+    }
+};
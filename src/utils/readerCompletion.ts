@@ -0,0 +1,106 @@
+/**
+ * Chapter completion - what happens when a chapter is finished in the reader
+ *
+ * A chapter counts as finished when the reader gets past the threshold
+ * (percent of the chapter) or moves on to the next chapter. Stored with the
+ * other reader settings (reader.* keys).
+ */
+
+import axios from 'axios';
+import { setChaptersRead } from './readState';
+import { removeCachedChapters } from './offlineCache';
+import { getChapterNumber } from './chapterList';
+import type { ListChapter } from './chapterList';
+import { syncTrackerProgress } from './trackerSync';
+
+export interface CompletionSettings {
+    // Percent of the chapter that has to be read
+    markReadThreshold: number;
+    markReadOnNext: boolean;
+    deleteAfterReading: boolean;
+    syncTrackersOnFinish: boolean;
+}
+
+export interface FinishedChapter {
+    id: number;
+    novelId: number;
+    name: string;
+    path: string;
+    pluginId?: string;
+    chapterNumber?: number;
+}
+
+export const defaultCompletionSettings: CompletionSettings = {
+    markReadThreshold: 95,
+    markReadOnNext: true,
+    deleteAfterReading: false,
+    syncTrackersOnFinish: true,
+};
+
+/**
+ * Read completion settings from a GET /api/settings/reader response.
+ */
+export const parseCompletionSettings = (data: Record<string, string>): CompletionSettings => {
+    const threshold = parseInt(data['reader.markReadThreshold']);
+    return {
+        markReadThreshold: threshold >= 50 && threshold <= 100 ? threshold : defaultCompletionSettings.markReadThreshold,
+        markReadOnNext: data['reader.markReadOnNext'] !== 'false',
+        deleteAfterReading: data['reader.deleteAfterReading'] === 'true',
+        syncTrackersOnFinish: data['reader.syncTrackersOnFinish'] !== 'false',
+    };
+};
+
+export const loadCompletionSettings = async (): Promise<CompletionSettings> => {
+    const res = await axios.get('/api/settings/reader');
+    return parseCompletionSettings(res.data || {});
+};
+
+export const saveCompletionSettings = async (patch: Partial<CompletionSettings>) => {
+    await axios.post('/api/settings/reader', Object.fromEntries(
+        Object.entries(patch).map(([key, value]) => [key, String(value)])
+    ));
+};
+
+// Highest chapter number among the novel's read chapters, which is what trackers count
+// as "chapters read"; falls back to the finished chapter when the list can't be loaded
+const getHighestReadNumber = async (chapter: FinishedChapter): Promise<number | null> => {
+    const finished = getChapterNumber(chapter);
+    try {
+        const res = await axios.get(`/api/novel/chapters?novelId=${chapter.novelId}`);
+        const numbers = ((res.data || []) as ListChapter[])
+            .filter((c) => !c.unread || c.id === chapter.id)
+            .map((c) => getChapterNumber(c))
+            .filter((n): n is number => n !== null);
+        return Math.max(finished ?? 0, ...numbers) || null;
+    } catch (e) {
+        console.error('Failed to load chapters for tracker sync:', e);
+        return finished;
+    }
+};
+
+/**
+ * Mark the chapter read, then run the optional clean-up and tracker sync.
+ */
+export const finishChapter = async (chapter: FinishedChapter, settings: CompletionSettings) => {
+    await setChaptersRead([chapter.id], true, chapter.novelId);
+
+    if (settings.deleteAfterReading) {
+        try {
+            await axios.post('/api/novel/chapter/delete', {
+                novelId: chapter.novelId,
+                pluginId: chapter.pluginId,
+                // Not the whole reader chapter, that carries the content
+                chapters: [{ id: chapter.id, path: chapter.path, name: chapter.name }],
+            });
+            await removeCachedChapters([chapter.id]);
+        } catch (e) {
+            console.error('Failed to delete finished chapter:', e);
+        }
+    }
+
+    // Queued, so progress still reaches the trackers when offline or the push fails
+    if (settings.syncTrackersOnFinish) {
+        const number = await getHighestReadNumber(chapter);
+        if (number) syncTrackerProgress(chapter.novelId, number);
+    }
+};
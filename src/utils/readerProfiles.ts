@@ -0,0 +1,145 @@
+/**
+ * Reader profiles utility - named bundles of reader appearance settings
+ *
+ * Profiles are stored as one JSON setting on the server and can be
+ * exported/imported as a JSON file to share them.
+ */
+
+import axios from 'axios';
+import type { ReaderSettings } from '../components/reader/ReaderSettingsPanel';
+
+export const profileKeys = [
+    'fontFamily',
+    'fontSize',
+    'backgroundColor',
+    'textColor',
+    'maxWidth',
+    'padding',
+    'customCSS',
+] as const;
+
+export type ReaderProfileValues = Pick<ReaderSettings, typeof profileKeys[number]>;
+
+export interface ReaderProfile extends ReaderProfileValues {
+    id: string;
+    name: string;
+}
+
+const PROFILES_SETTING = 'reader.profiles';
+const EXPORT_FORMAT = 'lightyomi-reader-profiles';
+
+export const getProfileValues = (settings: ReaderProfileValues): ReaderProfileValues => ({
+    fontFamily: settings.fontFamily,
+    fontSize: settings.fontSize,
+    backgroundColor: settings.backgroundColor,
+    textColor: settings.textColor,
+    maxWidth: settings.maxWidth,
+    padding: settings.padding,
+    customCSS: settings.customCSS,
+});
+
+const newProfileId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const createProfile = (name: string, settings: ReaderProfileValues): ReaderProfile => ({
+    id: newProfileId(),
+    name,
+    ...getProfileValues(settings),
+});
+
+export const matchesProfile = (settings: ReaderProfileValues, profile: ReaderProfile) =>
+    profileKeys.every((key) => settings[key] === profile[key]);
+
+// Check an untrusted object (import file / server value) and fill in an id if missing
+const toProfile = (raw: unknown): ReaderProfile | null => {
+    if (!raw || typeof raw !== 'object') return null;
+    const p = raw as Record<string, unknown>;
+    if (typeof p.name !== 'string' || !p.name.trim()) return null;
+    if (typeof p.fontFamily !== 'string' || typeof p.backgroundColor !== 'string' || typeof p.textColor !== 'string') {
+        return null;
+    }
+    const fontSize = Number(p.fontSize);
+    const maxWidth = Number(p.maxWidth);
+    const padding = Number(p.padding);
+    if ([fontSize, maxWidth, padding].some(isNaN)) return null;
+
+    return {
+        id: typeof p.id === 'string' && p.id ? p.id : newProfileId(),
+        name: p.name.trim(),
+        fontFamily: p.fontFamily,
+        fontSize,
+        backgroundColor: p.backgroundColor,
+        textColor: p.textColor,
+        maxWidth,
+        padding,
+        customCSS: typeof p.customCSS === 'string' ? p.customCSS : '',
+    };
+};
+
+export const loadProfiles = async (): Promise<ReaderProfile[]> => {
+    const res = await axios.get(`/api/settings/${PROFILES_SETTING}`);
+    if (!res.data?.value) return [];
+    try {
+        const parsed = JSON.parse(res.data.value);
+        return Array.isArray(parsed) ? parsed.map(toProfile).filter((p): p is ReaderProfile => !!p) : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveProfiles = async (profiles: ReaderProfile[]) => {
+    await axios.post(`/api/settings/${PROFILES_SETTING}`, { value: JSON.stringify(profiles) });
+};
+
+/**
+ * Add imported profiles, replacing existing ones with the same name.
+ */
+export const mergeProfiles = (existing: ReaderProfile[], imported: ReaderProfile[]): ReaderProfile[] => {
+    const merged = [...existing];
+    for (const profile of imported) {
+        const index = merged.findIndex((p) => p.name.toLowerCase() === profile.name.toLowerCase());
+        if (index === -1) {
+            merged.push({ ...profile, id: newProfileId() });
+        } else {
+            merged[index] = { ...profile, id: merged[index].id };
+        }
+    }
+    return merged;
+};
+
+/**
+ * Global reader settings payload (string values) for applying a profile.
+ */
+export const toSettingsPayload = (values: ReaderProfileValues): Record<string, string> => ({
+    fontFamily: values.fontFamily,
+    fontSize: String(values.fontSize),
+    backgroundColor: values.backgroundColor,
+    textColor: values.textColor,
+    maxWidth: String(values.maxWidth),
+    padding: String(values.padding),
+    customCSS: values.customCSS,
+});
+
+export const exportProfiles = (profiles: ReaderProfile[]) => {
+    const data = { format: EXPORT_FORMAT, version: 1, profiles };
+    const dataStr = 'data:text/json;charset=utf-8,' + encodeURIComponent(JSON.stringify(data, null, 2));
+    const anchor = document.createElement('a');
+    anchor.setAttribute('href', dataStr);
+    anchor.setAttribute('download', `reader_profiles_${new Date().toISOString().split('T')[0]}.json`);
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+};
+
+/**
+ * Parse an exported file. Accepts the export wrapper, a bare array or a single profile.
+ * Throws when nothing usable is found.
+ */
+export const parseProfilesFile = (content: string): ReaderProfile[] => {
+    const data = JSON.parse(content);
+    const list = Array.isArray(data) ? data : Array.isArray(data?.profiles) ? data.profiles : [data];
+    const profiles = list.map(toProfile).filter((p: ReaderProfile | null): p is ReaderProfile => !!p);
+    if (profiles.length === 0) {
+        throw new Error('No valid reader profiles found in file');
+    }
+    return profiles;
+};
@@ -0,0 +1,139 @@
+/**
+ * Reading position utility - persists where the reader left off in a chapter
+ *
+ * Scroll mode stores a plain percentage ("42"), paginated mode stores the page
+ * ("page:3/12"). Both are readable from either mode so switching modes keeps
+ * the position roughly in place.
+ *
+ * Positions of library chapters are also synced to the server through the
+ * history endpoint so they follow the reader between devices; localStorage
+ * acts as a cache and as the only store for chapters without an id.
+ * Every position carries the time it was saved ("42@1700000000000") so the
+ * newer of the local and server copies wins.
+ */
+
+import axios from 'axios';
+
+export interface ReadingPosition {
+    percent: number;
+    page?: number;
+    pageCount?: number;
+    // Epoch ms; unset for positions saved before timestamps were stored
+    savedAt?: number;
+}
+
+// Storage key for reading position
+export const getPositionKey = (chapterId: number | string) => `reading_position_${chapterId}`;
+
+// Server sync is debounced; every scroll/page event only reschedules it
+const SYNC_DELAY = 3000;
+const pendingSync = new Map<string, { position: ReadingPosition; timer: ReturnType<typeof setTimeout> }>();
+
+const isServerChapter = (chapterId: number | string) => /^\d+$/.test(String(chapterId));
+
+const serializePosition = (position: ReadingPosition) => {
+    const value = position.page !== undefined && position.pageCount
+        ? `page:${position.page}/${position.pageCount}`
+        : String(Math.round(position.percent));
+    return position.savedAt ? `${value}@${position.savedAt}` : value;
+};
+
+const parsePosition = (raw: string): ReadingPosition | null => {
+    const [value, stamp] = raw.split('@');
+    const savedAt = stamp ? parseInt(stamp, 10) || undefined : undefined;
+
+    const pageMatch = value.match(/^page:(\d+)\/(\d+)$/);
+    if (pageMatch) {
+        const page = parseInt(pageMatch[1], 10);
+        const pageCount = parseInt(pageMatch[2], 10);
+        const percent = pageCount > 1 ? Math.round((page / (pageCount - 1)) * 100) : 0;
+        return { percent, page, pageCount, savedAt };
+    }
+
+    const percent = parseInt(value, 10);
+    return isNaN(percent) ? null : { percent, savedAt };
+};
+
+export const loadReadingPosition = (chapterId: number | string): ReadingPosition | null => {
+    const raw = localStorage.getItem(getPositionKey(chapterId));
+    return raw ? parsePosition(raw) : null;
+};
+
+const scheduleSync = (key: string, position: ReadingPosition) => {
+    const pending = pendingSync.get(key);
+    if (pending) clearTimeout(pending.timer);
+    pendingSync.set(key, {
+        position,
+        timer: setTimeout(() => flushReadingPositions(key), SYNC_DELAY),
+    });
+};
+
+export const saveReadingPosition = (chapterId: number | string, position: ReadingPosition) => {
+    const stamped = { ...position, savedAt: Date.now() };
+    localStorage.setItem(getPositionKey(chapterId), serializePosition(stamped));
+
+    if (isServerChapter(chapterId)) {
+        scheduleSync(String(chapterId), stamped);
+    }
+};
+
+/**
+ * Push pending positions to the server immediately (all of them, or one chapter).
+ * Called on chapter change and when the page is hidden so nothing is lost.
+ */
+export const flushReadingPositions = (chapterId?: number | string) => {
+    const keys = chapterId !== undefined ? [String(chapterId)] : Array.from(pendingSync.keys());
+    for (const key of keys) {
+        const pending = pendingSync.get(key);
+        if (!pending) continue;
+        clearTimeout(pending.timer);
+        pendingSync.delete(key);
+
+        axios.post(`/api/history/${key}`, {
+            progress: Math.round(pending.position.percent),
+            position: serializePosition(pending.position),
+        }).catch((e) => console.error('Failed to sync reading position:', e));
+    }
+};
+
+/**
+ * Load a position for library chapters from whichever of the server and local
+ * copies was saved last. A newer local copy (e.g. saved offline) is pushed back
+ * to the server. Falls back to the local cache when offline or when the server has none.
+ */
+export const fetchReadingPosition = async (chapterId: number | string): Promise<ReadingPosition | null> => {
+    const local = loadReadingPosition(chapterId);
+    if (isServerChapter(chapterId) && !pendingSync.has(String(chapterId))) {
+        try {
+            const res = await axios.get(`/api/history/${chapterId}`);
+            const { progress, position } = res.data || {};
+            const remote: ReadingPosition | null = typeof position === 'string'
+                ? parsePosition(position)
+                : typeof progress === 'number' ? { percent: progress } : null;
+            // Without timestamps on either side the server copy wins, as before
+            if (local?.savedAt && local.savedAt > (remote?.savedAt ?? 0)) {
+                scheduleSync(String(chapterId), local);
+                return local;
+            }
+            if (remote) {
+                localStorage.setItem(getPositionKey(chapterId), serializePosition(remote));
+                return remote;
+            }
+        } catch {
+            // Not in history yet, or server unreachable
+        }
+    }
+    return local;
+};
+
+/**
+ * Resolve a saved position to a page index for the current layout.
+ * Uses the exact page when the page count is unchanged, otherwise maps the percentage.
+ */
+export const positionToPage = (position: ReadingPosition, pageCount: number): number => {
+    if (pageCount <= 1) return 0;
+    if (position.page !== undefined && position.pageCount === pageCount) {
+        return Math.min(position.page, pageCount - 1);
+    }
+    return Math.min(pageCount - 1, Math.max(0, Math.round((position.percent / 100) * (pageCount - 1))));
+};
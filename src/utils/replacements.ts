@@ -0,0 +1,72 @@
+/**
+ * Replacement rules utility - fixes names/terms in chapter text before rendering
+ *
+ * Rules are either global (novelId null) or bound to one novel. Only text nodes
+ * are rewritten, so tags, attributes and image URLs are never touched.
+ */
+
+export interface ReplacementRule {
+    id: number;
+    // null = applies to every novel
+    novelId: number | null;
+    novelName?: string;
+    pattern: string;
+    replacement: string;
+    isRegex: boolean;
+    caseSensitive: boolean;
+    enabled: boolean;
+}
+
+export type ReplacementRuleDraft = Omit<ReplacementRule, 'id' | 'novelName'>;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const compileRule = (rule: Pick<ReplacementRule, 'pattern' | 'isRegex' | 'caseSensitive'>) =>
+    new RegExp(rule.isRegex ? rule.pattern : escapeRegExp(rule.pattern), rule.caseSensitive ? 'g' : 'gi');
+
+/**
+ * Validation message for the rule editor, or null when the rule is usable.
+ */
+export const getRuleError = (rule: Pick<ReplacementRule, 'pattern' | 'isRegex' | 'caseSensitive'>): string | null => {
+    if (!rule.pattern) return 'Pattern is required';
+    if (!rule.isRegex) return null;
+    try {
+        compileRule(rule);
+        return null;
+    } catch (e) {
+        return e instanceof Error ? e.message : 'Invalid regular expression';
+    }
+};
+
+/**
+ * Enabled rules that apply to a novel, global ones first.
+ */
+export const getRulesForNovel = (rules: ReplacementRule[], novelId?: number | null) =>
+    rules
+        .filter((r) => r.enabled && (r.novelId === null || r.novelId === novelId))
+        .sort((a, b) => (a.novelId === null ? 0 : 1) - (b.novelId === null ? 0 : 1));
+
+/**
+ * Apply rules in order to the text of a chapter's HTML.
+ */
+export const applyReplacements = (html: string, rules: ReplacementRule[]): string => {
+    const compiled = rules
+        .filter((r) => r.enabled && !getRuleError(r))
+        .map((r) => ({ regex: compileRule(r), rule: r }));
+    if (!html || compiled.length === 0) return html;
+
+    const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+    const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+    while (walker.nextNode()) {
+        const node = walker.currentNode as Text;
+        let text = node.data;
+        for (const { regex, rule } of compiled) {
+            // Plain rules insert the replacement literally; regex rules may use $1 etc.
+            text = rule.isRegex
+                ? text.replace(regex, rule.replacement)
+                : text.replace(regex, () => rule.replacement);
+        }
+        if (text !== node.data) node.data = text;
+    }
+    return doc.body.innerHTML;
+};
@@ -0,0 +1,150 @@
+/**
+ * HTML sanitizer - cleans plugin-supplied chapter HTML before it is rendered
+ *
+ * Allowlist based: unknown tags are unwrapped (their text is kept), dangerous
+ * ones are dropped with their content, and only a few attributes survive.
+ * Images are routed through the image proxy and tracking pixels are removed.
+ */
+
+import { getProxiedImageUrl } from './imageProxy';
+
+const ALLOWED_TAGS = new Set([
+    'p', 'br', 'hr', 'div', 'span', 'section', 'article', 'header', 'footer', 'aside', 'center',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del', 'ins', 'sub', 'sup', 'small', 'big', 'mark',
+    'abbr', 'cite', 'q', 'blockquote', 'pre', 'code', 'font',
+    'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+    'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption', 'colgroup', 'col',
+    'figure', 'figcaption', 'img', 'a', 'ruby', 'rt', 'rp',
+]);
+
+// Removed together with everything inside them
+const DROPPED_TAGS = new Set([
+    'script', 'style', 'noscript', 'template', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+    'form', 'input', 'button', 'select', 'textarea', 'link', 'meta', 'base', 'svg', 'math', 'audio', 'video',
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(['title', 'lang', 'dir', 'align']);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+    a: new Set(['href']),
+    img: new Set(['src', 'alt', 'width', 'height']),
+    ol: new Set(['start', 'type', 'reversed']),
+    td: new Set(['colspan', 'rowspan']),
+    th: new Set(['colspan', 'rowspan']),
+    col: new Set(['span']),
+    colgroup: new Set(['span']),
+};
+
+// Lazy-loading attributes some sources use instead of src
+const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original'];
+
+const TRACKER_PATTERN = /(pixel|beacon|tracking|tracker|analytics|counter|1x1|spacer)[^/]*\.(gif|png|php)|\/(pixel|beacon|collect)(\?|$)/i;
+
+const LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+const IMAGE_PROTOCOLS = ['http:', 'https:', 'data:'];
+
+// Parse the way the browser will when the link is followed: tabs, newlines and
+// surrounding control characters are ignored, relative URLs resolve against the page
+const parseUrl = (url: string) => {
+    try {
+        return new URL(url, window.location.href);
+    } catch {
+        return null;
+    }
+};
+
+const isSafeHref = (href: string) => {
+    const url = parseUrl(href);
+    return !!url && LINK_PROTOCOLS.includes(url.protocol);
+};
+
+const isTrackingPixel = (img: Element, src: string) => {
+    const width = parseInt(img.getAttribute('width') || '', 10);
+    const height = parseInt(img.getAttribute('height') || '', 10);
+    return (width <= 1 && width >= 0) || (height <= 1 && height >= 0) || TRACKER_PATTERN.test(src);
+};
+
+const sanitizeImage = (img: Element): boolean => {
+    const rawSrc = LAZY_SRC_ATTRIBUTES.map((attr) => img.getAttribute(attr)).find(Boolean)
+        || img.getAttribute('src')
+        || '';
+    let src = rawSrc.trim();
+    // Protocol-relative, would otherwise skip the proxy
+    if (src.startsWith('//')) src = `https:${src}`;
+    if (!src || isTrackingPixel(img, src)) return false;
+    const url = parseUrl(src);
+    if (!url || !IMAGE_PROTOCOLS.includes(url.protocol)) return false;
+    if (url.protocol === 'data:' && !url.href.startsWith('data:image/')) return false;
+
+    img.setAttribute('src', getProxiedImageUrl(src));
+    img.setAttribute('loading', 'lazy');
+    return true;
+};
+
+const sanitizeElement = (el: Element) => {
+    const tag = el.tagName.toLowerCase();
+    const allowed = TAG_ATTRIBUTES[tag];
+
+    // Copy the list first, removing while iterating skips attributes
+    for (const attr of Array.from(el.attributes)) {
+        const name = attr.name.toLowerCase();
+        if (LAZY_SRC_ATTRIBUTES.includes(name) && tag === 'img') continue;
+        if (!GLOBAL_ATTRIBUTES.has(name) && !allowed?.has(name)) {
+            el.removeAttribute(attr.name);
+        }
+    }
+
+    if (tag === 'a') {
+        const href = el.getAttribute('href');
+        const url = href ? parseUrl(href) : null;
+        if (href && !isSafeHref(href)) {
+            el.removeAttribute('href');
+        } else if (url && url.protocol !== 'mailto:' && url.origin !== window.location.origin) {
+            el.setAttribute('target', '_blank');
+            el.setAttribute('rel', 'noopener noreferrer');
+        }
+    }
+
+    if (tag === 'img') {
+        const keep = sanitizeImage(el);
+        LAZY_SRC_ATTRIBUTES.forEach((attr) => el.removeAttribute(attr));
+        if (!keep) el.remove();
+    }
+};
+
+const sanitizeNode = (node: Node) => {
+    for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE) continue;
+        if (child.nodeType !== Node.ELEMENT_NODE) {
+            // Comments, processing instructions, ...
+            child.remove();
+            continue;
+        }
+
+        const el = child as Element;
+        const tag = el.tagName.toLowerCase();
+        if (DROPPED_TAGS.has(tag)) {
+            el.remove();
+            continue;
+        }
+
+        sanitizeNode(el);
+        if (ALLOWED_TAGS.has(tag)) {
+            sanitizeElement(el);
+        } else {
+            el.replaceWith(...Array.from(el.childNodes));
+        }
+    }
+};
+
+/**
+ * Clean chapter HTML. Pass trusted=true to render a source's HTML untouched.
+ */
+export const sanitizeHtml = (html: string, trusted = false): string => {
+    if (!html || trusted) return html;
+
+    const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+    sanitizeNode(doc.body);
+    return doc.body.innerHTML;
+};
@@ -0,0 +1,217 @@
+/**
+ * Tracker sync - push "chapters read" to bound trackers when chapters are finished
+ *
+ * - Each push is queued in localStorage first, so nothing is lost offline
+ * - Failed pushes are retried with backoff; after MAX_ATTEMPTS they stay in
+ *   the queue as failed until retried or discarded from Settings → Trackers
+ * - Per tracker, progress can be limited to only ever go up
+ */
+
+import axios from 'axios';
+import { getTrackEntries, getTracker, hasCapability, updateTrackEntry } from './trackers';
+import { isOffline } from './offlineCache';
+
+export type SyncItemStatus = 'pending' | 'failed';
+
+export interface SyncItem {
+    novelId: number;
+    // Unset until the novel's bound trackers are known
+    tracker?: string;
+    progress: number;
+    status: SyncItemStatus;
+    attempts: number;
+    nextAttemptAt: number;
+    lastError?: string;
+    // When the progress was last queued; tells a push in flight that newer progress arrived
+    updatedAt: number;
+}
+
+const QUEUE_KEY = 'tracker.syncQueue';
+const RULES_KEY = 'tracker.onlyIfHigher';
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE = 30 * 1000;
+const RETRY_MAX = 30 * 60 * 1000;
+
+// --- Queue storage ---
+
+const listeners = new Set<() => void>();
+
+const loadQueue = (): SyncItem[] => {
+    try {
+        const queue = JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+        return Array.isArray(queue) ? queue : [];
+    } catch {
+        return [];
+    }
+};
+
+let queue = loadQueue();
+
+const saveQueue = (next: SyncItem[]) => {
+    queue = next;
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+    listeners.forEach((listener) => listener());
+};
+
+const sameTarget = (a: Pick<SyncItem, 'novelId' | 'tracker'>, b: Pick<SyncItem, 'novelId' | 'tracker'>) =>
+    a.novelId === b.novelId && a.tracker === b.tracker;
+
+export const getSyncQueue = () => queue;
+
+export const subscribeSyncQueue = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// --- Per-tracker rules ---
+
+/**
+ * Whether progress on this tracker may only increase (default on).
+ */
+export const getOnlyIfHigher = (tracker: string): boolean => {
+    try {
+        const rules = JSON.parse(localStorage.getItem(RULES_KEY) || '{}');
+        return rules[tracker] !== false;
+    } catch {
+        return true;
+    }
+};
+
+export const setOnlyIfHigher = (tracker: string, value: boolean) => {
+    let rules: Record<string, boolean> = {};
+    try {
+        rules = JSON.parse(localStorage.getItem(RULES_KEY) || '{}');
+    } catch {
+        // Start over from defaults
+    }
+    localStorage.setItem(RULES_KEY, JSON.stringify({ ...rules, [tracker]: value }));
+};
+
+// --- Pushing ---
+
+// A newer push for the same target replaces the queued one, keeping the highest progress
+const enqueue = (item: Pick<SyncItem, 'novelId' | 'tracker' | 'progress'>) => {
+    const existing = queue.find((q) => sameTarget(q, item));
+    const progress = existing ? Math.max(existing.progress, item.progress) : item.progress;
+    saveQueue([
+        ...queue.filter((q) => !sameTarget(q, item)),
+        { ...item, progress, status: 'pending', attempts: 0, nextAttemptAt: 0, updatedAt: Date.now() },
+    ]);
+};
+
+// Progress queued since the failed push starts over with a fresh attempt count
+const markFailed = (item: SyncItem, error: unknown) => {
+    const attempts = item.attempts + 1;
+    const message = error instanceof Error ? error.message : String(error);
+    saveQueue(queue.map((q) => sameTarget(q, item) && q.updatedAt === item.updatedAt
+        ? {
+            ...q,
+            attempts,
+            status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+            nextAttemptAt: Date.now() + Math.min(RETRY_MAX, RETRY_BASE * 2 ** (attempts - 1)),
+            lastError: message,
+        }
+        : q));
+};
+
+const remove = (item: Pick<SyncItem, 'novelId' | 'tracker'>) => {
+    saveQueue(queue.filter((q) => !sameTarget(q, item)));
+};
+
+// Remove the item only if nothing newer was queued for its target while it was being pushed
+const removeIfUnchanged = (item: SyncItem) => {
+    saveQueue(queue.filter((q) => !(sameTarget(q, item) && q.progress === item.progress && q.updatedAt === item.updatedAt)));
+};
+
+const pushItem = async (item: SyncItem) => {
+    // Novel-level item: find the bound trackers and queue one push per tracker
+    if (!item.tracker) {
+        const entries = await getTrackEntries(item.novelId);
+        // Progress may have been raised while the entries were loading
+        const current = queue.find((q) => sameTarget(q, item));
+        if (!current) return;
+        remove(current);
+        entries
+            .filter((entry) => {
+                const tracker = getTracker(entry.tracker);
+                return tracker && hasCapability(tracker, 'progress');
+            })
+            .forEach((entry) => enqueue({ novelId: item.novelId, tracker: entry.tracker, progress: current.progress }));
+        return;
+    }
+
+    const entries = await getTrackEntries(item.novelId);
+    const entry = entries.find((e) => e.tracker === item.tracker);
+    // Unbound since it was queued, or already further along
+    if (!entry || (getOnlyIfHigher(item.tracker) && entry.progress >= item.progress) || entry.progress === item.progress) {
+        removeIfUnchanged(item);
+        return;
+    }
+    await updateTrackEntry(item.novelId, item.tracker, {
+        progress: item.progress,
+        ...(entry.status === 'plan_to_read' ? { status: 'reading' as const } : {}),
+    });
+    removeIfUnchanged(item);
+};
+
+let processing = false;
+
+/**
+ * Push every queued item that is due (or every pending one when forced, e.g. back online).
+ */
+export const processSyncQueue = async (force = false) => {
+    if (processing || isOffline()) return;
+    processing = true;
+    // Each queued progress is tried at most once per run; novel-level items expand into
+    // new targets and progress queued while a push is in flight gets its own try
+    const tried = new Set<string>();
+    const tryKey = (q: SyncItem) => `${q.novelId}:${q.tracker}:${q.updatedAt}`;
+    try {
+        for (;;) {
+            const now = Date.now();
+            const due = queue.find((q) => q.status === 'pending'
+                && !tried.has(tryKey(q))
+                && (force || q.nextAttemptAt <= now));
+            if (!due) break;
+            tried.add(tryKey(due));
+            try {
+                await pushItem(due);
+            } catch (e) {
+                // Not in the library or not bound anymore
+                if (axios.isAxiosError(e) && e.response?.status === 404) {
+                    removeIfUnchanged(due);
+                    continue;
+                }
+                console.error('Tracker sync failed:', e);
+                markFailed(due, e);
+                if (isOffline()) break;
+            }
+        }
+    } finally {
+        processing = false;
+    }
+};
+
+/**
+ * Queue a progress update (the highest chapter number read) for every tracker
+ * the novel is bound to and try to push it now.
+ */
+export const syncTrackerProgress = (novelId: number, progress: number) => {
+    if (!(progress > 0)) return;
+    enqueue({ novelId, progress: Math.floor(progress) });
+    processSyncQueue();
+};
+
+export const retrySyncItem = (item: SyncItem) => {
+    saveQueue(queue.map((q) => sameTarget(q, item) ? { ...q, status: 'pending', attempts: 0, nextAttemptAt: 0 } : q));
+    processSyncQueue();
+};
+
+export const retryAllSyncItems = () => {
+    saveQueue(queue.map((q) => ({ ...q, status: 'pending', attempts: 0, nextAttemptAt: 0 })));
+    processSyncQueue(true);
+};
+
+export const discardSyncItem = (item: SyncItem) => remove(item);
@@ -0,0 +1,229 @@
+/**
+ * Tracker utility - bind library novels to tracker entries and keep them in sync
+ *
+ * The server talks to the trackers; edits are pushed through it and the
+ * remote state is pulled back with refresh. The API root can be pointed at
+ * another tracker server with VITE_TRACKER_API; tests use the in-memory mock
+ * in mockTracker.ts.
+ */
+
+import axios from 'axios';
+
+export const TRACKER_API: string = import.meta.env.VITE_TRACKER_API || '/api/tracker';
+
+export type TrackStatus = 'reading' | 'completed' | 'on_hold' | 'dropped' | 'plan_to_read' | 'rereading';
+
+// How the user signs in: OAuth popup, username/password, or a pasted token
+export type TrackerAuthKind = 'oauth' | 'credentials' | 'token';
+
+export type TrackerCapability = 'progress' | 'score' | 'dates';
+
+export interface TrackerInfo {
+    id: string;
+    name: string;
+    // Key of the tracker in GET /status
+    statusKey: string;
+    auth: TrackerAuthKind;
+    // Shown next to the token field
+    authHint?: string;
+    capabilities: TrackerCapability[];
+    // Statuses the tracker supports, labelled the way the tracker names them
+    statuses: { value: TrackStatus; label: string }[];
+    maxScore: number;
+    logo?: string;
+    color: string;
+    initials: string;
+}
+
+export const trackStatuses: { value: TrackStatus; label: string }[] = [
+    { value: 'reading', label: 'Reading' },
+    { value: 'completed', label: 'Completed' },
+    { value: 'on_hold', label: 'On Hold' },
+    { value: 'dropped', label: 'Dropped' },
+    { value: 'plan_to_read', label: 'Plan to Read' },
+    { value: 'rereading', label: 'Rereading' },
+];
+
+/**
+ * Registered trackers. Settings and the tracker dialog render whatever is listed here;
+ * the server needs a matching adapter under TRACKER_API/:id.
+ */
+export const trackerRegistry: TrackerInfo[] = [
+    {
+        id: 'MyAnimeList',
+        name: 'MyAnimeList',
+        statusKey: 'mal',
+        auth: 'oauth',
+        capabilities: ['progress', 'score', 'dates'],
+        statuses: trackStatuses,
+        maxScore: 10,
+        logo: 'https://upload.wikimedia.org/wikipedia/commons/7/7a/MyAnimeList_Logo.png',
+        color: '#2E51A2',
+        initials: 'MAL',
+    },
+    {
+        id: 'AniList',
+        name: 'AniList',
+        statusKey: 'anilist',
+        auth: 'oauth',
+        capabilities: ['progress', 'score', 'dates'],
+        statuses: trackStatuses,
+        maxScore: 100,
+        color: '#02A9FF',
+        initials: 'AL',
+    },
+    {
+        id: 'Kitsu',
+        name: 'Kitsu',
+        statusKey: 'kitsu',
+        auth: 'credentials',
+        capabilities: ['progress', 'score', 'dates'],
+        statuses: [
+            { value: 'reading', label: 'Currently Reading' },
+            { value: 'completed', label: 'Completed' },
+            { value: 'on_hold', label: 'On Hold' },
+            { value: 'dropped', label: 'Dropped' },
+            { value: 'plan_to_read', label: 'Want to Read' },
+        ],
+        maxScore: 20,
+        color: '#F75239',
+        initials: 'K',
+    },
+    {
+        id: 'MangaUpdates',
+        name: 'MangaUpdates',
+        statusKey: 'mangaupdates',
+        auth: 'credentials',
+        capabilities: ['progress', 'score'],
+        statuses: [
+            { value: 'reading', label: 'Reading List' },
+            { value: 'completed', label: 'Complete List' },
+            { value: 'on_hold', label: 'On Hold List' },
+            { value: 'dropped', label: 'Unfinished List' },
+            { value: 'plan_to_read', label: 'Wish List' },
+        ],
+        maxScore: 10,
+        color: '#FF8C00',
+        initials: 'MU',
+    },
+    {
+        id: 'NovelUpdates',
+        name: 'NovelUpdates',
+        statusKey: 'novelupdates',
+        auth: 'token',
+        authHint: 'Value of the wordpress_logged_in cookie from novelupdates.com',
+        // Reading lists and the chapter marker only, no scores or dates
+        capabilities: ['progress'],
+        statuses: [
+            { value: 'reading', label: 'Reading' },
+            { value: 'completed', label: 'Completed' },
+            { value: 'on_hold', label: 'On Hold' },
+            { value: 'dropped', label: 'Dropped' },
+            { value: 'plan_to_read', label: 'Plan to Read' },
+        ],
+        maxScore: 0,
+        color: '#2A3F54',
+        initials: 'NU',
+    },
+];
+
+export interface TrackerConnection {
+    connected: boolean;
+    username?: string;
+}
+
+// GET /status, keyed by statusKey
+export type TrackerStatusMap = Record<string, TrackerConnection | undefined>;
+
+export const getTracker = (tracker: string) => trackerRegistry.find((t) => t.id === tracker);
+
+export const hasCapability = (tracker: TrackerInfo, capability: TrackerCapability) =>
+    tracker.capabilities.includes(capability);
+
+export interface TrackerSearchResult {
+    remoteId: string;
+    title: string;
+    cover?: string;
+    summary?: string;
+    totalChapters?: number;
+    publishingStatus?: string;
+}
+
+export interface TrackEntry {
+    tracker: string;
+    remoteId: string;
+    title: string;
+    status: TrackStatus;
+    score: number;
+    progress: number;
+    totalChapters?: number;
+    // YYYY-MM-DD; an empty string clears the date (undefined would be dropped from the request)
+    startDate?: string;
+    finishDate?: string;
+}
+
+export type TrackEntryPatch = Partial<Pick<TrackEntry, 'status' | 'score' | 'progress' | 'startDate' | 'finishDate'>>;
+
+export const getTrackerStatus = async (): Promise<TrackerStatusMap> => {
+    const res = await axios.get(`${TRACKER_API}/status`);
+    return res.data || {};
+};
+
+/**
+ * Trackers the user has connected in Settings → Trackers.
+ */
+export const getConnectedTrackers = async (): Promise<TrackerInfo[]> => {
+    const status = await getTrackerStatus();
+    return trackerRegistry.filter((t) => status[t.statusKey]?.connected);
+};
+
+/**
+ * Sign in to a credentials or token tracker. OAuth trackers use GET /:id/auth-url instead.
+ */
+export const loginTracker = async (tracker: string, login: { username: string; password: string } | { token: string }) => {
+    await axios.post(`${TRACKER_API}/${tracker}/login`, login);
+};
+
+export const searchTracker = async (tracker: string, query: string): Promise<TrackerSearchResult[]> => {
+    const res = await axios.get(`${TRACKER_API}/${tracker}/search?query=${encodeURIComponent(query)}`);
+    return res.data || [];
+};
+
+export const getTrackEntries = async (novelId: number): Promise<TrackEntry[]> => {
+    const res = await axios.get(`${TRACKER_API}/novel/${novelId}`);
+    return res.data || [];
+};
+
+/**
+ * Bind a novel to a tracker entry. The server returns the entry as stored on the tracker.
+ */
+export const bindTracker = async (novelId: number, tracker: string, result: TrackerSearchResult): Promise<TrackEntry> => {
+    const res = await axios.post(`${TRACKER_API}/novel/${novelId}`, {
+        tracker,
+        remoteId: result.remoteId,
+        title: result.title,
+    });
+    return res.data;
+};
+
+export const unbindTracker = async (novelId: number, tracker: string) => {
+    await axios.delete(`${TRACKER_API}/novel/${novelId}/${tracker}`);
+};
+
+/**
+ * Push local edits to the tracker, returning the updated entry.
+ */
+export const updateTrackEntry = async (novelId: number, tracker: string, patch: TrackEntryPatch): Promise<TrackEntry> => {
+    const res = await axios.put(`${TRACKER_API}/novel/${novelId}/${tracker}`, patch);
+    return res.data;
+};
+
+/**
+ * Pull the current state from the tracker (changes made on the tracker's own site).
+ */
+export const refreshTrackEntry = async (novelId: number, tracker: string): Promise<TrackEntry> => {
+    const res = await axios.post(`${TRACKER_API}/novel/${novelId}/${tracker}/refresh`);
+    return res.data;
+};
+
+export const getTrackerName = (tracker: string) => getTracker(tracker)?.name || tracker;
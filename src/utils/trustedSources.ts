@@ -0,0 +1,31 @@
+/**
+ * Trusted sources utility - sources whose chapter HTML is rendered without sanitization
+ *
+ * Stored as a JSON list of plugin ids in the `reader.trustedSources` setting.
+ */
+
+import axios from 'axios';
+
+const TRUSTED_SOURCES_SETTING = 'reader.trustedSources';
+
+export const loadTrustedSources = async (): Promise<string[]> => {
+    const res = await axios.get(`/api/settings/${TRUSTED_SOURCES_SETTING}`);
+    try {
+        const parsed = JSON.parse(res.data?.value || '[]');
+        return Array.isArray(parsed) ? parsed.filter((id) => typeof id === 'string') : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Trust or untrust one source, returns the updated list.
+ */
+export const setSourceTrusted = async (pluginId: string, trusted: boolean): Promise<string[]> => {
+    const current = await loadTrustedSources();
+    const next = trusted
+        ? Array.from(new Set([...current, pluginId]))
+        : current.filter((id) => id !== pluginId);
+    await axios.post(`/api/settings/${TRUSTED_SOURCES_SETTING}`, { value: JSON.stringify(next) });
+    return next;
+};
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -11,5 +12,8 @@ export default defineConfig({
         changeOrigin: true,
       },
     }
-  }
+  },
+  test: {
+    environment: 'jsdom',
+  },
 })